@@ -0,0 +1,192 @@
+// conditional-cleaner.ts
+
+import {
+  AD_WORDS_REGEX,
+  DIV_TO_P_ELEMS,
+  EMBED_ELEMENTS,
+  FLAG_CLEAN_CONDITIONALLY,
+  LOADING_WORDS_REGEX,
+  TAGS_TO_CLEAN_CONDITIONALLY
+} from './constants';
+import type { ElementInfo } from './types';
+import {
+  getAncestorIds,
+  getChildrenIds,
+  getClassWeight,
+  getDescendantIds,
+  getElementInfo,
+  getLinkDensity,
+  getTotalVisibleInnerText,
+  isAllowedVideoEmbed,
+  isDataTable
+} from './utils';
+
+interface CleaningOptions {
+  debug: boolean;
+  flags: number;
+  allowedVideoRegex?: RegExp;
+  linkDensityModifier?: number; // default 0
+}
+
+/** Get the kept descendants of an element with one of the given tag names */
+function getKeptDescendantsWithTags(id: number, store: Map<number, ElementInfo>, keepIds: Set<number>, tagNames: string[]): number[] {
+  return getDescendantIds(id, store).filter(descendantId =>
+    keepIds.has(descendantId) && tagNames.includes(getElementInfo(descendantId, store)?.tagName ?? ''));
+}
+
+/** Check if an ancestor (up to maxDepth levels, 0 = unlimited) has the tag name and passes the filter */
+function hasAncestorTag(
+  id: number,
+  store: Map<number, ElementInfo>,
+  tagName: string,
+  maxDepth = 3,
+  filter?: (ancestorId: number) => boolean
+): boolean {
+  return getAncestorIds(id, store, maxDepth).some(ancestorId =>
+    getElementInfo(ancestorId, store)?.tagName === tagName && (!filter || filter(ancestorId)));
+}
+
+/**
+ * Check if an element is a DIV without block descendants. Readability.js turns such DIVs into P
+ * (which are not cleaned conditionally), so their text is kept like a paragraph's.
+ */
+function isParagraphDiv(id: number, store: Map<number, ElementInfo>, keepIds: Set<number>): boolean {
+  return getElementInfo(id, store)?.tagName === 'DIV' && getKeptDescendantsWithTags(id, store, keepIds, [...DIV_TO_P_ELEMS]).length === 0;
+}
+
+/** Ratio of the text inside descendants with the given tags to the element's text */
+function getTextDensity(id: number, store: Map<number, ElementInfo>, keepIds: Set<number>, tagNames: string[]): number {
+  const textLength = getTotalVisibleInnerText(id, store, true, keepIds).length;
+  if (textLength === 0) return 0;
+  let childrenLength = 0;
+  for (const childId of getKeptDescendantsWithTags(id, store, keepIds, tagNames)) {
+    childrenLength += getTotalVisibleInnerText(childId, store, true, keepIds).length;
+  }
+  return childrenLength / textLength;
+}
+
+/**
+ * Decide whether an element should be removed (Readability.js's _cleanConditionally rules):
+ * link density, image/paragraph ratios, input and embed counts and class weight.
+ */
+function shouldRemoveElement(
+  id: number,
+  tagName: string,
+  store: Map<number, ElementInfo>,
+  keepIds: Set<number>,
+  options: CleaningOptions
+): boolean {
+  const { flags, allowedVideoRegex, linkDensityModifier = 0 } = options;
+  const innerText = getTotalVisibleInnerText(id, store, true, keepIds);
+
+  let isList = tagName === 'UL' || tagName === 'OL';
+  if (!isList) {
+    let listLength = 0;
+    for (const listId of getKeptDescendantsWithTags(id, store, keepIds, ['UL', 'OL'])) {
+      listLength += getTotalVisibleInnerText(listId, store, true, keepIds).length;
+    }
+    isList = innerText.length > 0 && listLength / innerText.length > 0.9;
+  }
+
+  // Data tables, their contents, code and elements containing data tables are kept
+  if (tagName === 'TABLE' && isDataTable(id, store)) return false;
+  if (hasAncestorTag(id, store, 'TABLE', 0, ancestorId => isDataTable(ancestorId, store))) return false;
+  if (hasAncestorTag(id, store, 'CODE')) return false;
+  if (getKeptDescendantsWithTags(id, store, keepIds, ['TABLE']).some(tableId => isDataTable(tableId, store))) return false;
+
+  const weight = getClassWeight(id, store, flags);
+  if (weight < 0) return true;
+
+  if (innerText.split(',').length - 1 >= 10) return false;
+
+  // DIVs with only inline content count as paragraphs
+  const p = getKeptDescendantsWithTags(id, store, keepIds, ['P']).length +
+    getKeptDescendantsWithTags(id, store, keepIds, ['DIV']).filter(divId => isParagraphDiv(divId, store, keepIds)).length;
+  const img = getKeptDescendantsWithTags(id, store, keepIds, ['IMG']).length;
+  const li = getKeptDescendantsWithTags(id, store, keepIds, ['LI']).length - 100;
+  const input = getKeptDescendantsWithTags(id, store, keepIds, ['INPUT']).length;
+  const headingDensity = getTextDensity(id, store, keepIds, ['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+  let embedCount = 0;
+  for (const embedId of getKeptDescendantsWithTags(id, store, keepIds, ['OBJECT', 'EMBED', 'IFRAME'])) {
+    // Allowed videos keep their container
+    if (isAllowedVideoEmbed(embedId, store, allowedVideoRegex)) return false;
+    embedCount++;
+  }
+
+  if (AD_WORDS_REGEX.test(innerText) || LOADING_WORDS_REGEX.test(innerText)) return true;
+
+  const contentLength = innerText.length;
+  const linkDensity = getLinkDensity(id, store, keepIds);
+  const textDensity = getTextDensity(id, store, keepIds, ['SPAN', 'LI', 'TD', ...DIV_TO_P_ELEMS]);
+  const isFigureChild = hasAncestorTag(id, store, 'FIGURE');
+
+  let haveToRemove =
+    (!isFigureChild && img > 1 && p / img < 0.5) ||
+    (!isList && li > p) ||
+    (input > Math.floor(p / 3)) ||
+    (!isList && !isFigureChild && headingDensity < 0.9 && contentLength < 25 && (img === 0 || img > 2) && linkDensity > 0) ||
+    (!isList && weight < 25 && linkDensity > 0.2 + linkDensityModifier) ||
+    (weight >= 25 && linkDensity > 0.5 + linkDensityModifier) ||
+    ((embedCount === 1 && contentLength < 75) || embedCount > 1) ||
+    (img === 0 && textDensity === 0);
+
+  // Allow simple lists of images to remain in pages
+  if (isList && haveToRemove) {
+    const children = getChildrenIds(id, store);
+    if (children.every(childId => getChildrenIds(childId, store).length <= 1)) {
+      const liCount = getKeptDescendantsWithTags(id, store, keepIds, ['LI']).length;
+      if (img === liCount) haveToRemove = false;
+    }
+  }
+  return haveToRemove;
+}
+
+/**
+ * Remove FORM, FIELDSET, TABLE, UL and DIV elements (with their descendants) from the kept content
+ * when they look like clutter, mirroring Readability.js's _cleanConditionally.
+ * Does nothing when FLAG_CLEAN_CONDITIONALLY is disabled.
+ * @returns IDs of the elements that remain
+ */
+export function cleanConditionally(
+  elementStore: Map<number, ElementInfo>,
+  elementsToKeepIds: number[],
+  options: CleaningOptions
+): number[] {
+  if (!(options.flags & FLAG_CLEAN_CONDITIONALLY)) return elementsToKeepIds;
+
+  const keepIds = new Set(elementsToKeepIds);
+  for (const tagName of TAGS_TO_CLEAN_CONDITIONALLY) {
+    // Later elements first, so descendants are evaluated before their ancestors
+    const ids = elementsToKeepIds.filter(id => getElementInfo(id, elementStore)?.tagName === tagName).sort((a, b) => b - a);
+    for (const id of ids) {
+      if (!keepIds.has(id) || isParagraphDiv(id, elementStore, keepIds)) continue;
+      if (!shouldRemoveElement(id, tagName, elementStore, keepIds, options)) continue;
+      if (options.debug) console.log(`Cleaning conditionally: removing ${tagName}#${id}`);
+      keepIds.delete(id);
+      for (const descendantId of getDescendantIds(id, elementStore)) keepIds.delete(descendantId);
+    }
+  }
+  return elementsToKeepIds.filter(id => keepIds.has(id));
+}
+
+/**
+ * Remove IFRAME, EMBED and OBJECT elements (with their descendants) that are not allowed videos,
+ * like Readability.js's _clean. Unlike cleanConditionally, this runs regardless of the flags.
+ * @returns IDs of the elements that remain
+ */
+export function cleanEmbeds(
+  elementStore: Map<number, ElementInfo>,
+  elementsToKeepIds: number[],
+  options: Pick<CleaningOptions, 'debug' | 'allowedVideoRegex'>
+): number[] {
+  const keepIds = new Set(elementsToKeepIds);
+  for (const id of elementsToKeepIds) {
+    const tagName = getElementInfo(id, elementStore)?.tagName ?? '';
+    if (!keepIds.has(id) || !EMBED_ELEMENTS.has(tagName) || isAllowedVideoEmbed(id, elementStore, options.allowedVideoRegex)) continue;
+    if (options.debug) console.log(`Cleaning embeds: removing ${tagName}#${id}`);
+    keepIds.delete(id);
+    for (const descendantId of getDescendantIds(id, elementStore)) keepIds.delete(descendantId);
+  }
+  return elementsToKeepIds.filter(id => keepIds.has(id));
+}
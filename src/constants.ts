@@ -4,6 +4,13 @@ export const VOID_ELEMENTS = new Set([
   "LINK", "META", "PARAM", "SOURCE", "TRACK", "WBR"
 ]);
 
+/** Block-level elements (content around them is split into separate paragraphs) */
+export const BLOCK_ELEMENTS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "CAPTION", "DD", "DETAILS", "DIV", "DL", "DT", "FIELDSET",
+  "FIGCAPTION", "FIGURE", "FOOTER", "FORM", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "LI",
+  "MAIN", "NAV", "OL", "P", "PRE", "SECTION", "SUMMARY", "TABLE", "TBODY", "TD", "TFOOT", "TH", "THEAD", "TR", "UL"
+]);
+
 /** Default tag names that Readability considers for scoring */
 export const DEFAULT_TAGS_TO_SCORE = new Set([
   "SECTION", "H2", "H3", "H4", "H5", "H6", "P", "TD", "PRE", "ARTICLE"
@@ -26,14 +33,103 @@ export const UNLIKELY_ROLES = new Set([
   "menu", "menubar", "complementary", "navigation", "alert", "alertdialog", "dialog"
 ]);
 
+/** Regular expression for text that is only an advertisement label (same as Readability.js) */
+export const AD_WORDS_REGEX = /^(ad(vertising|vertisement)?|pub(licité)?|werb(ung)?|广告|Реклама|Anuncio)$/iu;
+
+/** Regular expression for text that is only a loading indicator (same as Readability.js) */
+export const LOADING_WORDS_REGEX = /^((loading|正在加载|Загрузка|chargement|cargando)(…|\.\.\.)?)$/iu;
+
+/** Block-level elements that Readability.js treats as text-ish content when measuring text density */
+export const DIV_TO_P_ELEMS = new Set([
+  "BLOCKQUOTE", "DL", "DIV", "IMG", "OL", "P", "PRE", "TABLE", "UL"
+]);
+
+/** Tags cleaned conditionally from the kept content, in the order Readability.js cleans them */
+export const TAGS_TO_CLEAN_CONDITIONALLY = ["FORM", "FIELDSET", "TABLE", "UL", "DIV"];
+
 /** Regular expression for commas (and similar symbols) used in score calculation */
 export const COMMAS_REGEX = /\u002C|\u060C|\uFE50|\uFE10|\uFE11|\u2E41|\u2E34|\u2E32|\uFF0C/g;
 
+/** JSON-LD `@type` values describing an article (same list as Readability.js) */
+export const JSON_LD_ARTICLE_TYPES_REGEX = /^(Article|AdvertiserContentArticle|NewsArticle|AnalysisNewsArticle|AskPublicNewsArticle|BackgroundNewsArticle|OpinionNewsArticle|ReportageNewsArticle|ReviewNewsArticle|Report|SatiricalArticle|ScholarlyArticle|MedicalScholarlyArticle|SocialMediaPosting|BlogPosting|LiveBlogPosting|DiscussionForumPosting|TechArticle|APIReference)$/;
+
+/** Scoring flags, disabled one after another when the extracted content is too short (same as Readability.js) */
+export const FLAG_STRIP_UNLIKELYS = 0x1;
+export const FLAG_WEIGHT_CLASSES = 0x2;
+export const FLAG_CLEAN_CONDITIONALLY = 0x4;
+
+/** All scoring flags enabled */
+export const DEFAULT_FLAGS = FLAG_STRIP_UNLIKELYS | FLAG_WEIGHT_CLASSES | FLAG_CLEAN_CONDITIONALLY;
+
 /** Number of top candidates in Readability */
 export const NB_TOP_CANDIDATES = 5;
 
+/** Number of close-scoring top candidates that must share an ancestor for it to replace the top candidate */
+export const MINIMUM_TOPCANDIDATES = 3;
+
 /** Minimum character threshold for Readability */
 export const CHAR_THRESHOLD = 500;
 
 /** Link density adjustment value for Readability */
 export const LINK_DENSITY_MODIFIER = 0;
+
+/** Elements that are never written to the cleaned HTML output */
+export const UNSAFE_ELEMENTS = new Set([
+  "SCRIPT", "STYLE", "NOSCRIPT", "IFRAME", "FRAME", "FRAMESET", "OBJECT", "EMBED", "APPLET",
+  "BASE", "LINK", "META", "TEMPLATE",
+  // SVG animations can set an attribute to a javascript: URL (values, from, to, by)
+  "ANIMATE", "ANIMATEMOTION", "ANIMATETRANSFORM", "SET"
+]);
+
+/** Embedded content elements that are kept (even though unsafe otherwise) when they are allowed videos */
+export const EMBED_ELEMENTS = new Set(["IFRAME", "EMBED", "OBJECT"]);
+
+/** Attributes holding the embedded URL, the only ones matched against allowedVideoRegex */
+export const EMBED_SOURCE_ATTRIBUTES = ["src", "data"];
+
+/** Attributes removed from kept embeds: inline frame documents and sandbox/permission overrides */
+export const UNSAFE_EMBED_ATTRIBUTES = new Set(["srcdoc", "sandbox", "allow"]);
+
+/** Presentational attributes removed from the cleaned HTML output (same as Readability.js) */
+export const PRESENTATIONAL_ATTRIBUTES = new Set([
+  "align", "background", "bgcolor", "border", "cellpadding", "cellspacing", "frame", "hspace", "rules", "style", "valign", "vspace"
+]);
+
+/** Elements whose width/height attributes are removed from the cleaned HTML output */
+export const DEPRECATED_SIZE_ATTRIBUTE_ELEMS = new Set(["TABLE", "TH", "TD", "HR", "PRE"]);
+
+/** Attributes used by lazy-loading scripts to hold the real image URL, in order of preference */
+export const LAZY_SRC_ATTRIBUTES = ["data-src", "data-lazy-src", "data-original", "data-lazy", "data-url", "data-echo", "data-hi-res-src"];
+
+/** Attributes used by lazy-loading scripts to hold the real srcset */
+export const LAZY_SRCSET_ATTRIBUTES = ["data-srcset", "data-lazy-srcset"];
+
+/** Attributes holding a single URL that are resolved against the baseURI */
+export const URL_ATTRIBUTES = new Set(["href", "xlink:href", "src", "poster", "cite", "action", "formaction", "data"]);
+
+/** Classes of syntax highlighter line-number gutters, which are not part of the code */
+export const CODE_GUTTER_CLASSES = new Set([
+  "gutter", "rouge-gutter", "linenos", "linenodiv", "lineno", "line-numbers-rows", "line-number", "linenumber", "ln", "lnt",
+  "hljs-ln-numbers", "react-syntax-highlighter-line-number"
+]);
+
+/** Classes of elements that syntax highlighters use for one line of code each */
+export const CODE_LINE_CLASSES = new Set(["line", "code-line", "cm-line", "ace_line"]);
+
+/** Elements that end a line inside code when no newline follows them */
+export const CODE_LINE_ELEMENTS = new Set(["DIV", "P", "LI", "TR"]);
+
+/** Class names that declare the language of a code block (language-js, lang-js, highlight-source-js, brush: js) */
+export const CODE_LANGUAGE_CLASS_REGEX = /(?:^|\s)(?:language-|lang-|highlight-(?:source-|text-)?|brush:\s*)([\w+#.]+)/i;
+
+/** Types of MathJax script elements holding TeX ("math/tex" and "math/tex; mode=display") */
+export const MATH_SCRIPT_TYPE_REGEX = /^\s*math\/tex\s*(;|$)/i;
+
+/** Classes of the output MathJax v2 renders next to the script (MathJax_Preview, MathJax_Display, mjx-chtml, MJX_Assistive_MathML, ...) */
+export const MATHJAX_OUTPUT_CLASS_REGEX = /^(?:mathjax(?:_\w+)?|mjx[\w-]*)$/i;
+
+/** IDs of the frames MathJax v2 renders formulas into (MathJax-Element-N-Frame) */
+export const MATHJAX_OUTPUT_ID_REGEX = /^MathJax-Element-\d+-Frame$/;
+
+/** Classes of elements that wrap a MathML formula with its rendering (KaTeX, MediaWiki) */
+export const MATH_CONTAINER_CLASSES = new Set(["katex", "mwe-math-element"]);
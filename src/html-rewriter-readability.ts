@@ -1,8 +1,12 @@
+import { HtmlSerializer } from './html-serializer';
+import { JsonLdHandler } from './json-ld-handler';
 import { MarkdownConverter } from './markdown-converter';
 import { Phase1Handler } from './phase1-handler';
+import { PlainTextConverter } from './plain-text-converter';
+import { Phase4Handler } from './phase4-handler';
 import { calculateScoresAndFindBestCandidate } from './phase2-scorer';
-import type { ElementInfo, Metadata, ReadabilityOptions } from './types';
-import { getParentId } from './utils';
+import type { ElementInfo, Metadata, Phase4HandlerOptions, ReadabilityOptions, ReadabilityResult, RenderContext, Renderer } from './types';
+import { getAncestorIds, getChildrenIds, getDescendantIds, getParentId, getTextContent } from './utils';
 
 export class HtmlRewriterReadability {
   private elementStore: Map<number, ElementInfo>;
@@ -11,6 +15,7 @@ export class HtmlRewriterReadability {
   private elementsToKeepIdsSet: Set<number>;
   private options: ReadabilityOptions;
   private baseURI: URL;
+  private renderers: Map<string, Renderer<unknown>>; // Custom renderers by name
 
   constructor(baseURI: string | URL, options?: ReadabilityOptions) {
     if (typeof baseURI === 'string') {
@@ -31,6 +36,7 @@ export class HtmlRewriterReadability {
     this.elementsToKeepIdsSet = new Set();
     this.metadataStore = {};
     this.elementCounter = 0;
+    this.renderers = new Map(Object.entries(this.options.renderers ?? {}));
   }
 
   private resetState(): void {
@@ -50,10 +56,14 @@ export class HtmlRewriterReadability {
       this.metadataStore,
       () => ++this.elementCounter,
       this.options.debug ?? false,
-      this.options.maxElemsToParse
+      this.options.maxElemsToParse,
+      this.options.allowedVideoRegex
     );
+    const jsonLdHandler = new JsonLdHandler(this.metadataStore, this.options.debug ?? false);
+    // Text is only read through the document handler (element handlers would receive every chunk again)
     const rewriter = new HTMLRewriter()
-      .on("*", phase1Handler)
+      .on("*", { element: (element) => phase1Handler.element(element) })
+      .on('script[type="application/ld+json"]', jsonLdHandler)
       .onDocument(phase1Handler);
     const responseClone = response.clone();
     await rewriter.transform(responseClone).text();
@@ -61,7 +71,7 @@ export class HtmlRewriterReadability {
     if (this.options.debug) console.log("Collected Metadata:", this.metadataStore);
   }
 
-  private runPhase2(): { topCandidateId: number | null, elementsToKeepIds: number[] } {
+  private runPhase2(): { topCandidateId: number | null, elementsToKeepIds: number[], flags: number } {
     if (this.options.debug) console.log("Phase 2: Scoring elements...");
     const result = calculateScoresAndFindBestCandidate(this.elementStore, {
       debug: this.options.debug ?? false,
@@ -74,25 +84,88 @@ export class HtmlRewriterReadability {
     return result;
   }
 
-  private convertToMarkdown(rootElementId: number | null): string {
+  /** Input of the renderers for the article under the given root */
+  private getRenderContext(rootElementId: number): RenderContext {
+    return {
+      elementStore: this.elementStore,
+      elementsToKeepIdsSet: this.elementsToKeepIdsSet,
+      rootElementId,
+      baseURI: this.baseURI,
+      metadata: this.metadataStore,
+    };
+  }
+
+  private convertToMarkdown(rootElementId: number): string {
+    const converter = new MarkdownConverter({ ...this.options.markdownOptions, debug: this.options.debug });
+    return converter.render(this.getRenderContext(rootElementId));
+  }
+
+  private convertToPlainText(rootElementId: number): string {
+    const converter = new PlainTextConverter({ ...this.options.plainTextOptions, debug: this.options.debug });
+    return converter.render(this.getRenderContext(rootElementId));
+  }
+
+  /** Run the registered renderers, keyed by their names */
+  private runRenderers(rootElementId: number): Record<string, unknown> {
+    const rendered: Record<string, unknown> = {};
+    for (const [name, renderer] of this.renderers) {
+      if (this.options.debug) console.log(`Rendering "${name}"...`);
+      rendered[name] = renderer.render(this.getRenderContext(rootElementId));
+    }
+    return rendered;
+  }
+
+  /**
+   * Register a custom renderer. Its output is added to `rendered[name]` of the process() result.
+   * A renderer registered with the same name replaces the previous one.
+   */
+  public registerRenderer(name: string, renderer: Renderer<unknown>): this {
+    this.renderers.set(name, renderer);
+    return this;
+  }
+
+  private convertToHtml(rootElementId: number | null): string {
     if (rootElementId === null) {
-      if (this.options.debug) console.error("Cannot generate Markdown: Root element ID is null.");
+      if (this.options.debug) console.error("Cannot generate HTML: Root element ID is null.");
       return "";
     }
 
-    const converter = new MarkdownConverter(
+    const serializer = new HtmlSerializer(
       this.elementStore,
       this.elementsToKeepIdsSet,
-      this.baseURI,
-      { debug: this.options.debug }
+      this.getPhase4Options()
     );
 
-    return converter.convert(rootElementId);
+    return serializer.serialize(rootElementId);
   }
 
+  private getPhase4Options(): Phase4HandlerOptions {
+    return {
+      baseURI: this.baseURI,
+      keepClasses: this.options.keepClasses,
+      classesToPreserve: this.options.classesToPreserve,
+      formattingOptions: { debug: this.options.debug ?? false, allowedVideoRegex: this.options.allowedVideoRegex },
+    };
+  }
 
+  private runPhase4(response: Response, rootElementId: number): Response {
+    if (this.options.debug) console.log("Phase 4: Rewriting original response...");
+    // The root and its ancestors are unwrapped so only the kept subtree remains
+    const ancestorIdsSet = new Set([rootElementId, ...getAncestorIds(rootElementId, this.elementStore, 0)]);
+    const phase4Handler = new Phase4Handler(
+      this.elementStore,
+      this.elementsToKeepIdsSet,
+      ancestorIdsSet,
+      this.getPhase4Options(),
+      this.options.maxElemsToParse
+    );
+    return new HTMLRewriter()
+      .on("*", phase4Handler)
+      .onDocument({ comments: (comment) => phase4Handler.comments(comment) })
+      .transform(response);
+  }
 
-  public async process(response: Response): Promise<{ markdown: string, metadata: Metadata } | null> {
+  public async process(response: Response): Promise<ReadabilityResult | null> {
     await this.runPhase1(response);
     const { topCandidateId, elementsToKeepIds } = this.runPhase2();
 
@@ -103,9 +176,64 @@ export class HtmlRewriterReadability {
     this.elementsToKeepIdsSet = new Set(elementsToKeepIds);
     const rootBuildId = getParentId(topCandidateId, this.elementStore) ?? topCandidateId; // Use parent as starting point
     const markdown = this.convertToMarkdown(rootBuildId);
-    ;
+    const content = this.convertToHtml(rootBuildId);
+    const textContent = this.getArticleTextContent(rootBuildId);
+
+    return {
+      title: this.metadataStore.title ?? "",
+      byline: this.metadataStore.byline ?? null,
+      dir: this.metadataStore.dir ?? null,
+      lang: this.metadataStore.lang ?? null,
+      content,
+      textContent,
+      length: textContent.length,
+      excerpt: this.metadataStore.excerpt ?? this.getFirstParagraphText(rootBuildId),
+      siteName: this.metadataStore.siteName ?? null,
+      publishedTime: this.metadataStore.publishedTime ?? null,
+      markdown,
+      ...(this.options.includePlainText ? { text: this.convertToPlainText(rootBuildId) } : {}),
+      ...(this.renderers.size > 0 ? { rendered: this.runRenderers(rootBuildId) } : {}),
+      metadata: this.metadataStore,
+    };
+  }
+
+  /** Text content of the kept elements under the root */
+  private getArticleTextContent(rootElementId: number): string {
+    let textContent = "";
+    for (const childId of getChildrenIds(rootElementId, this.elementStore)) {
+      if (this.elementsToKeepIdsSet.has(childId)) {
+        textContent += getTextContent(childId, this.elementStore, this.elementsToKeepIdsSet);
+      }
+    }
+    return textContent.trim();
+  }
+
+  /** Text of the first kept non-empty paragraph, used as excerpt when the page has no description */
+  private getFirstParagraphText(rootElementId: number): string | null {
+    for (const id of getDescendantIds(rootElementId, this.elementStore)) {
+      if (!this.elementsToKeepIdsSet.has(id) || this.elementStore.get(id)?.tagName !== 'P') continue;
+      const text = getTextContent(id, this.elementStore, this.elementsToKeepIdsSet).trim();
+      if (text) return text;
+    }
+    return null;
+  }
+
+  /**
+   * Extract the article and stream it as HTML by rewriting the original Response in a second pass.
+   * The Markdown string is never built, and the article body is piped to the client as it is parsed.
+   */
+  public async transform(response: Response): Promise<Response | null> {
+    await this.runPhase1(response);
+    const { topCandidateId, elementsToKeepIds } = this.runPhase2();
+
+    if (!topCandidateId || elementsToKeepIds.length === 0) {
+      if (this.options.debug) console.warn("Failed to extract readable content.");
+      return null;
+    }
+    this.elementsToKeepIdsSet = new Set(elementsToKeepIds);
+    const rootBuildId = getParentId(topCandidateId, this.elementStore) ?? topCandidateId; // Use parent as starting point
 
-    return { markdown, metadata: this.metadataStore };
+    return this.runPhase4(response, rootBuildId);
   }
 
   private static defaultOptions: ReadabilityOptions = {
@@ -117,5 +245,6 @@ export class HtmlRewriterReadability {
     keepClasses: false,
     allowedVideoRegex: /(www\.youtube\.com|player\.vimeo\.com)/i,
     linkDensityModifier: 0,
+    includePlainText: false,
   };
 }
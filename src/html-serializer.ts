@@ -0,0 +1,80 @@
+// html-serializer.ts
+
+import { VOID_ELEMENTS } from './constants';
+import type { ElementInfo, Phase4HandlerOptions } from './types';
+import { escapeHtml, getChildrenIds, isJavaScriptURI, isOutputElement, sanitizeAttributes } from './utils';
+
+export class HtmlSerializer {
+  private elementStore: Map<number, ElementInfo>;
+  private elementsToKeepIdsSet: Set<number>;
+  private options: Phase4HandlerOptions;
+
+  constructor(
+    elementStore: Map<number, ElementInfo>,
+    elementsToKeepIdsSet: Set<number>,
+    options: Phase4HandlerOptions
+  ) {
+    this.elementStore = elementStore;
+    this.elementsToKeepIdsSet = elementsToKeepIdsSet;
+    this.options = options;
+  }
+
+  public serialize(rootElementId: number | null): string {
+    const debug = this.options.formattingOptions?.debug;
+    if (debug) console.log("Serializing extracted elements to HTML...");
+    if (rootElementId === null) {
+      if (debug) console.error("Cannot generate HTML: Root element ID is null.");
+      return "";
+    }
+
+    let htmlOutput = '';
+    for (const childId of getChildrenIds(rootElementId, this.elementStore)) {
+      htmlOutput += this.serializeNodeRecursive(childId);
+    }
+
+    if (debug) console.log("HTML serialization finished.");
+    return htmlOutput.trim();
+  }
+
+  /**
+   * Recursively serializes the element with the specified ID and its kept descendants.
+   * @param id ID of the element to serialize
+   * @returns Part of the generated HTML string
+   */
+  private serializeNodeRecursive(id: number): string {
+    const info = this.elementStore.get(id);
+    if (!info || !this.elementsToKeepIdsSet.has(id)) {
+      return '';
+    }
+    // Unsafe elements are dropped (embeds are only output when they are allowed videos)
+    if (!isOutputElement(id, this.elementStore, this.options.formattingOptions?.allowedVideoRegex)) {
+      return '';
+    }
+
+    let content = '';
+    for (const node of info.contentNodes) {
+      content += node.type === 'text' ? escapeHtml(node.text) : this.serializeNodeRecursive(node.id);
+    }
+
+    // Images without any usable source (only a placeholder) are dropped
+    if (info.tagName === 'IMG' && !info.attributes.src && !info.attributes.srcset) {
+      return '';
+    }
+
+    // Links that would run script are replaced by their content
+    if (info.tagName === 'A' && isJavaScriptURI(info.attributes.href)) {
+      return content;
+    }
+
+    const tagName = info.tagName.toLowerCase();
+    const attributes = sanitizeAttributes(info.tagName, info.attributes, this.options);
+    let openTag = `<${tagName}`;
+    for (const [name, value] of Object.entries(attributes)) {
+      openTag += ` ${name}="${escapeHtml(value)}"`;
+    }
+    openTag += '>';
+
+    if (VOID_ELEMENTS.has(info.tagName)) return openTag;
+    return `${openTag}${content}</${tagName}>`;
+  }
+}
@@ -1,2 +1,5 @@
 export { HtmlRewriterReadability } from './html-rewriter-readability';
+export { isProbablyReaderable } from './is-probably-readerable';
+export { MarkdownConverter } from './markdown-converter';
+export { PlainTextConverter } from './plain-text-converter';
 export * from './types'; // Export types as well
@@ -0,0 +1,28 @@
+// is-probably-readerable.ts
+
+import { ReaderableHandler } from './readerable-handler';
+import type { ReaderableOptions } from './types';
+
+/**
+ * Decide whether the page is likely to contain an article without building the element store,
+ * like Readability.js's isProbablyReaderable. The Response is cloned, so it can still be passed to
+ * HtmlRewriterReadability.process afterwards. Parsing stops as soon as the score is reached.
+ * @param response Response containing the HTML page
+ * @param options minContentLength (default 140) and minScore (default 20)
+ */
+export async function isProbablyReaderable(response: Response, options: ReaderableOptions = {}): Promise<boolean> {
+  const { debug = false, minContentLength = 140, minScore = 20 } = options;
+  const handler = new ReaderableHandler(minContentLength, minScore, debug);
+  const transformed = new HTMLRewriter().on("*", handler).transform(response.clone());
+  if (!transformed.body) return false;
+
+  const reader = transformed.body.getReader();
+  while (!handler.isReaderable) {
+    const { done } = await reader.read();
+    if (done) break;
+  }
+  if (!handler.isReaderable) return false;
+  await reader.cancel();
+  if (debug) console.log("Readerable: score threshold reached.");
+  return true;
+}
@@ -0,0 +1,47 @@
+// json-ld-handler.ts
+
+import type { Metadata } from './types';
+
+/**
+ * HTMLRewriter handler for `<script type="application/ld+json">` elements.
+ * Registered with its own selector so every text chunk is delivered exactly once.
+ * Parsed documents are appended to `metadataStore.jsonLd`.
+ */
+export class JsonLdHandler {
+  private metadataStore: Metadata;
+  private debugEnabled: boolean;
+  private buffer = '';
+
+  constructor(metadataStore: Metadata, debugEnabled: boolean) {
+    this.metadataStore = metadataStore;
+    this.debugEnabled = debugEnabled;
+  }
+
+  /** Start collecting the script contents */
+  element(_element: Element) {
+    this.buffer = '';
+  }
+
+  /**
+   * Text chunk processing.
+   * Script contents form a single text node, so the last chunk completes the document.
+   * (onEndTag is not used because Phase1Handler already registers one on every skipped element.)
+   */
+  text(text: Text) {
+    this.buffer += text.text;
+    if (!text.lastInTextNode) return;
+
+    // Some sites wrap the JSON in a CDATA section
+    const content = this.buffer.replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, '');
+    this.buffer = '';
+    if (!content.trim()) return;
+    try {
+      const parsed = JSON.parse(content);
+      if (!Array.isArray(this.metadataStore.jsonLd)) this.metadataStore.jsonLd = [];
+      this.metadataStore.jsonLd.push(parsed);
+      if (this.debugEnabled) console.log("JSON-LD: Parsed script contents.");
+    } catch (error) {
+      if (this.debugEnabled) console.warn("JSON-LD: Failed to parse script contents:", error);
+    }
+  }
+}
@@ -1,48 +1,242 @@
 // markdown-converter.ts
 
-import { VOID_ELEMENTS } from './constants';
-import type { ElementInfo } from './types';
-import { escapeHtml, getChildrenIds, getInnerText } from './utils'; // Import from utils
+import { BLOCK_ELEMENTS, VOID_ELEMENTS } from './constants';
+import type { ContentNode, ElementInfo, MarkdownOptions, MarkdownRule, Metadata, RenderContext, Renderer } from './types';
+import {
+  escapeHtml, getAncestorIds, getBestImageSource, getChildrenIds, getCodeLanguage, getCodeText, getDescendantIds, getMathFormula, getTextContent,
+  getVideoLink, isCodeGutter, isDataTable, isRenderedMath, textSimilarity
+} from './utils'; // Import from utils
 
-export interface MarkdownConverterOptions {
+export interface MarkdownConverterOptions extends MarkdownOptions {
   debug?: boolean;
-  // Other options (e.g., headingStyle, bulletListMarker) can be added
 }
 
-export class MarkdownConverter {
-  private elementStore: Map<number, ElementInfo>;
-  private elementsToKeepIdsSet: Set<number>;
-  private baseURI: URL;
+/** Block markers that only take effect at the start of a line; the group is the text before the character to escape */
+const LINE_START_MARKER_REGEXES: RegExp[] = [
+  /^([ \t]*)#{1,6}(?:[ \t]|$)/, // ATX heading
+  /^([ \t]*)[-+*](?:[ \t]|$)/, // Bullet list item
+  /^([ \t]*)>/, // Blockquote
+  /^([ \t]*)(?:=+|-+(?:[ \t]*-)*)[ \t]*$/, // Setext heading underline or thematic break
+  /^([ \t]*\d{1,9})[.)](?:[ \t]|$)/, // Ordered list item (the delimiter after the number is escaped)
+];
+
+/** Check if a character (undefined at the edge of the text) is whitespace */
+function isWhitespace(char: string | undefined): boolean {
+  return char !== undefined && /\s/.test(char);
+}
+
+/** Check if a character is a letter or digit */
+function isAlphanumeric(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Escape a line of text so that it is rendered literally by CommonMark/GFM parsers.
+ * Characters are only escaped where they could start syntax: block markers at the start of a line,
+ * emphasis and strikethrough delimiters that are not surrounded by whitespace, code spans, math, link brackets,
+ * HTML tags and character references.
+ * The edges of the text are treated as adjacent to other content, so delimiters there are escaped.
+ */
+function escapeMarkdownLine(line: string, isLineStart: boolean, isLinkText: boolean): string {
+  let markerIndex = -1;
+  if (isLineStart) {
+    for (const regex of LINE_START_MARKER_REGEXES) {
+      const match = regex.exec(line);
+      if (match) {
+        markerIndex = match[1].length;
+        break;
+      }
+    }
+  }
+
+  let escaped = '';
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const previous = line[i - 1];
+    const next = line[i + 1];
+    let needsEscape = i === markerIndex;
+    switch (char) {
+      case '\\':
+        // A backslash only escapes ASCII punctuation
+        needsEscape = next === undefined || /[!-/:-@[-`{-~]/.test(next);
+        break;
+      case '`':
+      case '[':
+      case '$':
+        // $ would start math in renderers that support the $...$ formulas emitted for math
+        needsEscape = true;
+        break;
+      case ']':
+        needsEscape ||= isLinkText;
+        break;
+      case '*': case '~':
+        // Delimiters surrounded by whitespace can neither open nor close
+        needsEscape ||= !(isWhitespace(previous) && isWhitespace(next));
+        break;
+      case '_':
+        // Intraword underscores (snake_case) are not emphasis
+        needsEscape ||= !(isWhitespace(previous) && isWhitespace(next)) && !(isAlphanumeric(previous) && isAlphanumeric(next));
+        break;
+      case '<':
+        // Would start an HTML tag, comment or autolink
+        needsEscape = next === undefined || /[A-Za-z/!?]/.test(next);
+        break;
+      case '&':
+        // Would be decoded as a character reference
+        needsEscape = /^(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[A-Za-z][A-Za-z0-9]{1,31});/.test(line.slice(i + 1));
+        break;
+    }
+    escaped += needsEscape ? `\\${char}` : char;
+  }
+  return escaped;
+}
+
+/**
+ * Escape a text run for Markdown (see escapeMarkdownLine). Every line after a newline in the text starts a line.
+ * @param text Text to escape
+ * @param isLineStart Whether the text starts a line of the output
+ * @param isLinkText Whether the text is inside link text (where ] would end the text)
+ */
+function escapeMarkdownText(text: string, isLineStart: boolean, isLinkText: boolean): string {
+  return text.split('\n').map((line, index) => escapeMarkdownLine(line, isLineStart || index > 0, isLinkText)).join('\n');
+}
+
+/** Render text as an inline code span, using a longer backtick run than any inside the code */
+function toCodeSpan(code: string): string {
+  const text = code.replace(/\s*\n\s*/g, ' ');
+  if (!text.trim()) return '';
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const delimiter = '`'.repeat(longestRun + 1);
+  // Code starting or ending with a backtick is padded, as the parser strips one space on each side
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${delimiter}${padding}${text}${padding}${delimiter}`;
+}
+
+/** Escape a link destination so that spaces and parentheses do not end it */
+function escapeLinkDestination(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/** Markdown link title in double quotes */
+function toLinkTitle(title: string): string {
+  return ` "${title.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Ends the blank and whitespace-only lines of indented code blocks, which collapseBlankLines cannot tell apart from
+ * the blank lines between blocks. Removed from the final output (NUL is not allowed in HTML text, so none is lost).
+ */
+const CODE_BLANK_LINE_MARKER = '\u0000';
+
+/**
+ * Removes whitespace-only lines and runs of blank lines, except inside fenced code blocks
+ * (and on the lines of indented code blocks, which end with CODE_BLANK_LINE_MARKER)
+ */
+function collapseBlankLines(markdown: string): string {
+  const lines: string[] = [];
+  let openFence: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(/^[ \t]*(`{3,}|~{3,})/)?.[1];
+    if (openFence === null) {
+      if (fence) openFence = fence;
+      // Keep at most one blank line in a row
+      if (/^[ \t]*$/.test(line)) {
+        if (lines.length > 0 && lines[lines.length - 1] === '') continue;
+        lines.push('');
+        continue;
+      }
+    } else if (fence && fence.charAt(0) === openFence.charAt(0) && fence.length >= openFence.length && line.trim() === fence) {
+      openFence = null;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+/** Built-in Renderer producing the `markdown` result */
+export class MarkdownConverter implements Renderer<string> {
+  private elementStore: Map<number, ElementInfo> = new Map();
+  private elementsToKeepIdsSet: Set<number> = new Set();
+  private baseURI!: URL; // Set from the RenderContext in render()
   private options: MarkdownConverterOptions;
+  private linkReferenceNumbers: Map<string, number> = new Map(); // URL and title -> reference number in 'referenced' link style
+  private metadata: Metadata = {};
+  private rootElementId: number | null = null;
+  private removedHeadingId: number | null = null; // Leading heading that duplicates the title (removeTitleHeading)
+  private headingLevelOffset = 0; // Added to every heading level (baseHeadingLevel)
 
-  constructor(
-    elementStore: Map<number, ElementInfo>,
-    elementsToKeepIdsSet: Set<number>,
-    baseURI: URL,
-    options: MarkdownConverterOptions = {}
-  ) {
-    this.elementStore = elementStore;
-    this.elementsToKeepIdsSet = elementsToKeepIdsSet;
-    this.baseURI = baseURI;
-    this.options = options;
+  constructor(options: MarkdownConverterOptions = {}) {
+    this.options = { ...MarkdownConverter.defaultOptions, ...options };
   }
 
-  public convert(rootElementId: number | null): string { // Allow rootElementId to be null
+  public render(context: RenderContext): string {
+    this.elementStore = context.elementStore;
+    this.elementsToKeepIdsSet = context.elementsToKeepIdsSet;
+    this.baseURI = context.baseURI;
+    this.metadata = context.metadata;
+    this.rootElementId = context.rootElementId;
+    return this.convert(context.rootElementId);
+  }
+
+  /** Add a custom conversion rule. Rules are checked in the order they were added, before the built-in conversion. */
+  public addRule(rule: MarkdownRule): this {
+    this.options.rules = [...(this.options.rules ?? []), rule];
+    return this;
+  }
+
+  /** Find the first custom rule whose filter matches the element */
+  private findRule(info: ElementInfo): MarkdownRule | undefined {
+    return this.options.rules?.find(rule => {
+      if (typeof rule.filter === 'function') return rule.filter(info);
+      const tagNames = Array.isArray(rule.filter) ? rule.filter : [rule.filter];
+      return tagNames.some(tagName => tagName.toUpperCase() === info.tagName);
+    });
+  }
+
+  private convert(rootElementId: number): string {
     if (this.options.debug) console.log("Converting extracted elements to Markdown... :)");
-    if (rootElementId === null) {
-      if (this.options.debug) console.error("Cannot generate Markdown: Root element ID is null.");
-      return "";
-    }
 
     let markdownOutput = '';
+    this.linkReferenceNumbers.clear();
+    this.removedHeadingId = null;
+    this.headingLevelOffset = 0;
     const rootChildren = getChildrenIds(rootElementId, this.elementStore);
 
+    if (this.options.removeTitleHeading && this.metadata.title) {
+      const leadingHeadingId = this.findLeadingHeadingId(rootElementId);
+      if (typeof leadingHeadingId === 'number' && textSimilarity(this.metadata.title, getTextContent(leadingHeadingId, this.elementStore, this.elementsToKeepIdsSet)) > 0.75) {
+        this.removedHeadingId = leadingHeadingId;
+        if (this.options.debug) console.log(`Markdown Conv: Removed heading #${leadingHeadingId} duplicating the title`);
+      }
+    }
+    if (this.options.baseHeadingLevel !== undefined) {
+      // The shallowest of the remaining headings gets the base level
+      const headingLevels = getDescendantIds(rootElementId, this.elementStore)
+        .filter(id => id !== this.removedHeadingId && this.elementsToKeepIdsSet.has(id))
+        .map(id => this.elementStore.get(id)?.tagName ?? '')
+        .filter(tagName => /^H[1-6]$/.test(tagName))
+        .map(tagName => Number(tagName.charAt(1)));
+      if (headingLevels.length > 0) this.headingLevelOffset = this.options.baseHeadingLevel - Math.min(...headingLevels);
+    }
+
+    let isAfterBlock = false;
     for (const childId of rootChildren) {
-      markdownOutput += this.convertNodeRecursive(childId);
+      const childMarkdown = this.convertNodeRecursive(childId);
+      if (!childMarkdown) continue;
+      const isBlock = BLOCK_ELEMENTS.has(this.elementStore.get(childId)?.tagName ?? '');
+      markdownOutput = this.appendChildMarkdown(markdownOutput, childMarkdown, isBlock || (isAfterBlock && childMarkdown.trim() !== ''), false);
+      if (isBlock || childMarkdown.trim()) isAfterBlock = isBlock;
+    }
+
+    // Reference definitions go after the content
+    if (this.linkReferenceNumbers.size > 0) {
+      const definitions = Array.from(this.linkReferenceNumbers, ([target, referenceNumber]) => `[${referenceNumber}]: ${target}`);
+      markdownOutput += `\n\n${definitions.join('\n')}`;
     }
 
-    // Clean up unnecessary consecutive line breaks at the end
-    markdownOutput = markdownOutput.replace(/\n{3,}/g, '\n\n').trim();
+    // Clean up whitespace-only lines and unnecessary consecutive line breaks
+    // (the indentation of leading indented code is kept)
+    markdownOutput = collapseBlankLines(markdownOutput).replace(/^\s*\n/, '').trimEnd().split(CODE_BLANK_LINE_MARKER).join('');
 
     if (this.options.debug) console.log("Markdown conversion finished.");
     return markdownOutput;
@@ -64,127 +258,140 @@ export class MarkdownConverter {
   ): string {
     const info = this.elementStore.get(id);
     // If not kept or no info, return empty string
-    if (!info || !this.elementsToKeepIdsSet.has(id)) {
+    if (!info || !this.elementsToKeepIdsSet.has(id) || id === this.removedHeadingId) {
       return '';
     }
 
     let markdown = '';
     const tagName = info.tagName;
 
-    // --- Generate Markdown for child elements first ---
-    let childrenMarkdown = '';
-    const children = getChildrenIds(id, this.elementStore);
-    children.forEach((childId, index) => {
-      const childInfo = this.elementStore.get(childId);
-      const nextLevel = (tagName === 'UL' || tagName === 'OL' || tagName === 'LI') ? listLevel + 1 : 0; // Increase level within list-related elements
-      const isNextListOrdered = (tagName === 'OL'); // Tell the next level LI if the current one is OL
-      const nextListItemNumber = (tagName === 'OL') ? index + 1 : 1; // Pass the number to the direct children of OL
-      childrenMarkdown += this.convertNodeRecursive(
-        childId,
-        nextLevel,
-        isNextListOrdered,
-        nextListItemNumber
-      );
-    });
-
-    // --- Get and escape the element's own direct text ---
-    let elementText = '';
-    const rawDirectText = getInnerText(id, this.elementStore, false); // Get directTextContent
-    if (rawDirectText) {
-      // Escape Markdown special characters (\, `, *, _, {, }, [, ], (, ), #, +, -, ., !)
-      // Note: Be careful not to over-escape, especially inside code blocks.
-      // Libraries like Turndown handle this well.
-      elementText = rawDirectText.replace(/([\\`*_{}[\]()#+.!-])/g, '\\$1');
-      // Assuming HTML entities are decoded (& -> & should be checked if unescapeHtmlEntities was done in Phase1)
-      // If not, add decoding process here
-    }
-
     // --- List element indentation ---
     // listLevel=1 means no indent, 2 means 2 spaces, 3 means 4 spaces...
     const listIndent = '  '.repeat(listLevel > 0 ? listLevel - 1 : 0);
 
+    // Custom rules take precedence over the built-in conversion
+    const rule = this.findRule(info);
+    if (rule) {
+      return rule.replacement(this.convertContent(info, listLevel), info, this.options);
+    }
+
+    // Formulas are written as TeX: $inline$ or a $$ display block (MathJax's rendering of them is skipped)
+    if (isRenderedMath(id, this.elementStore)) return '';
+    const formula = getMathFormula(id, this.elementStore);
+    if (formula) {
+      return formula.isDisplay ? `\n\n$$\n${formula.tex}\n$$\n\n` : `$${formula.tex.replace(/\s+/g, ' ')}$`;
+    }
+
+    // Data tables are rendered from their rows and cells instead of the flattened content
+    if (tagName === 'TABLE' && isDataTable(id, this.elementStore)) {
+      return this.convertTable(id, listIndent);
+    }
+
+    // --- Generate Markdown for text runs and child elements in document order ---
+    // ATX heading text follows the # marker, so it does not start a line
+    const isAtxHeading = /^H[1-6]$/.test(tagName) && !(this.options.headingStyle === 'setext' && this.getHeadingLevel(tagName) <= 2);
+    // (code blocks are converted from their exact text)
+    const content = tagName === 'PRE' ? '' : this.convertContent(info, listLevel, !isAtxHeading);
+
     // --- Markdown generation per tag ---
     switch (tagName) {
       case 'P': {
         // Paragraph: Indent + own text + children result + 2 newlines
         // (Trim because child elements might be block elements, potentially adding extra newlines)
-        const pContent = (elementText + childrenMarkdown).trim();
+        const pContent = content.trim();
         markdown = pContent ? `${listIndent}${pContent}\n\n` : ''; // Don't output empty P
         break;
       }
-      case 'H1': markdown = `${listIndent}# ${elementText}${childrenMarkdown}\n\n`; break;
-      case 'H2': markdown = `${listIndent}## ${elementText}${childrenMarkdown}\n\n`; break;
-      case 'H3': markdown = `${listIndent}### ${elementText}${childrenMarkdown}\n\n`; break;
-      case 'H4': markdown = `${listIndent}#### ${elementText}${childrenMarkdown}\n\n`; break;
-      case 'H5': markdown = `${listIndent}##### ${elementText}${childrenMarkdown}\n\n`; break;
-      case 'H6': markdown = `${listIndent}###### ${elementText}${childrenMarkdown}\n\n`; break;
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+        const level = this.getHeadingLevel(tagName);
+        const headingContent = content.trim();
+        if (this.options.headingStyle === 'setext' && level <= 2) {
+          // Setext headings underline the text (H1 with =, H2 with -)
+          const underline = (level === 1 ? '=' : '-').repeat(Math.max(3, headingContent.length));
+          markdown = `${listIndent}${headingContent}\n${listIndent}${underline}\n\n`;
+        } else {
+          markdown = `${listIndent}${'#'.repeat(level)} ${headingContent}\n\n`;
+        }
+        break;
+      }
       case 'UL':
       case 'OL':
         // List container itself only adds surrounding newlines. Indentation etc. is delegated to the content (LI).
         // Add if there's no blank line before the list
-        markdown = childrenMarkdown.startsWith('\n') ? childrenMarkdown : `\n${childrenMarkdown}`;
-        // Add if there's no blank line after the list (might be unnecessary as the last LI adds a newline)
-        // markdown = markdown.endsWith('\n\n') ? markdown : markdown + '\n';
+        markdown = content.startsWith('\n') ? content : `\n${content}`;
+        // The last LI only ends its line, so a list outside a list item is followed by a blank line
+        // (a nested list stays part of its item)
+        if (listLevel === 0) markdown += '\n';
         break;
       case 'LI': {
         // isListOrdered is determined by whether the *parent* is OL
-        const marker = isListOrdered ? `${listItemNumber}.` : '*';
+        const marker = isListOrdered ? `${listItemNumber}.` : this.options.bulletListMarker;
         // Combine LI text and child Markdown
-        let liContent = (elementText + childrenMarkdown).trim();
+        let liContent = content.replace(/^\s*\n/, '').trimEnd();
         // Multi-line support: Add indent to lines after the first (ideally matching marker length, but fixed indent here)
         const itemIndent = `${listIndent}  `; // Indent after the marker
-        liContent = liContent.split('\n').map((line, index) => index > 0 ? itemIndent + line.trim() : line.trim()).join('\n');
+        // Child blocks are already indented to the item (code keeps its own indentation after that)
+        liContent = liContent.split('\n').map((line, index) => {
+          // An item starting with indented code keeps the code indentation after the marker
+          if (index === 0) return line.startsWith(`${itemIndent}    `) ? line.slice(itemIndent.length) : line.trimStart();
+          return line.startsWith(itemIndent) ? line : itemIndent + line.trimStart();
+        }).join('\n'); // Trailing spaces may be a hard break
         markdown = `${listIndent}${marker} ${liContent}\n`;
         break;
       }
       case 'A': {
-        let href = info.attributes.href ?? '';
-        if (href && !href.startsWith('http') && !href.startsWith('#') && !href.startsWith('mailto:') && !href.startsWith('tel:')) {
-          try { href = new URL(href, this.baseURI).href; }
-          catch (e) { console.warn(`Markdown Conv: Failed to resolve href: ${href}`); }
+        // Link text: Text runs and children in document order
+        const linkText = content.trim();
+        if (this.options.linkStyle === 'stripped') {
+          // Keep only the text
+          markdown = linkText;
+          break;
         }
-        // Link text: Prioritize children if they exist, otherwise use own direct text
-        const linkText = childrenMarkdown.trim() || elementText;
-        // It's often better not to escape Markdown special characters within link text
-        // (e.g., [**bold** link](...))
-        markdown = `[${linkText.replace(/([\\`*_{}[\]()#+.!-])/g, '\\$1')}](${href || ''})`; // Adjust escaping within link text as needed
+        markdown = this.formatLink(linkText, info.attributes.href ?? '', info.attributes.title);
         break;
       }
       case 'IMG': {
-        let src = info.attributes.src ?? '';
-        if (src && !src.startsWith('http') && !src.startsWith('data:')) {
+        let src = getBestImageSource(id, this.elementStore, this.options.imageTargetWidth ?? 1024);
+        if (!src) break; // Only a placeholder
+        if (!src.startsWith('http') && !src.startsWith('data:')) {
           try { src = new URL(src, this.baseURI).href; }
           catch (e) { console.warn(`Markdown Conv: Failed to resolve src: ${src}`); }
         }
-        const alt = info.attributes.alt ?? '';
-        const title = info.attributes.title ? ` "${escapeHtml(info.attributes.title)}"` : '';
-        // Treat images as block elements, so indent + 2 trailing newlines
-        markdown = `${listIndent}![${alt.replace(/([\\`*_{}[\]()#+.!-])/g, '\\$1')}](${src || ''}${title})\n\n`;
+        // Images in a figure without alt text are described by the caption
+        const alt = info.attributes.alt || this.getFigureCaptionText(info);
+        const title = info.attributes.title ? toLinkTitle(info.attributes.title) : '';
+        const image = `![${escapeMarkdownText(alt, false, true)}](${escapeLinkDestination(src)}${title})`;
+        // Images in links and among text stay inline; others are blocks (indent + 2 trailing newlines)
+        markdown = this.isInlineImage(info) ? image : `${listIndent}${image}\n\n`;
         break;
       }
       case 'PRE': {
-        // Find CODE element within PRE
-        const codeChild = children.map(cid => this.elementStore.get(cid)).find(cinfo => cinfo?.tagName === 'CODE');
-        let codeContent = '';
-        let lang = '';
-        if (codeChild) {
-          // Use the directTextContent of the CODE element (do not escape)
-          codeContent = getInnerText(codeChild.id, this.elementStore, false);
-          const langClass = codeChild.attributes.class?.match(/language-(\S+)/);
-          lang = langClass ? langClass[1] : '';
+        // Gutters of highlighters that lay out line numbers and code side by side (e.g. in a table) are not code
+        if (isCodeGutter(id, this.elementStore)) break;
+        // Exact text of the code (do not escape): only the newline after <pre> and trailing blank lines are dropped
+        const codeContent = getCodeText(id, this.elementStore, this.elementsToKeepIdsSet).replace(/^\r?\n/, '').replace(/\s+$/, '');
+        if (!codeContent) break;
+        if (this.options.codeBlockStyle === 'indented') {
+          // Indented code cannot interrupt a paragraph, so it always follows a blank line
+          const indentedCode = codeContent.split('\n')
+            .map(line => `${listIndent}    ${line}${line.trim() ? '' : CODE_BLANK_LINE_MARKER}`).join('\n');
+          markdown = `\n${indentedCode}\n\n`;
         } else {
-          // If no CODE, use the text directly under PRE (do not escape)
-          codeContent = getInnerText(id, this.elementStore, false);
+          // The fence is longer than any run of the fence character in the code, so it cannot be closed early
+          const fenceChar = (this.options.fence ?? '```').charAt(0);
+          const longestRun = Math.max(0, ...(codeContent.match(fenceChar === '`' ? /`+/g : /~+/g) ?? []).map(run => run.length));
+          const fence = fenceChar.repeat(Math.max(3, longestRun + 1));
+          const lang = getCodeLanguage(id, this.elementStore);
+          const indentedCode = codeContent.split('\n').map(line => line ? `${listIndent}${line}` : line).join('\n');
+          markdown = `${listIndent}${fence}${lang}\n${indentedCode}\n${listIndent}${fence}\n\n`;
         }
-        // Do not escape special characters within code blocks
-        markdown = `${listIndent}\`\`\`${lang}\n${codeContent.trim()}\n${listIndent}\`\`\`\n\n`;
         break;
       }
       case 'CODE': {
         // Assume isCodeBlock flag is set in phase1
         if (!info.isCodeBlock) {
-          // Inline code: Escaping content is generally unnecessary
-          markdown = `\`${(elementText + childrenMarkdown).trim()}\``;
+          // Inline code: the raw text, as backslash escapes are not processed in code spans
+          markdown = toCodeSpan(getTextContent(id, this.elementStore, this.elementsToKeepIdsSet));
         } else {
           // If PRE > CODE, it was handled by PRE, so return empty string
           markdown = '';
@@ -194,35 +401,157 @@ export class MarkdownConverter {
         break;
       }
       case 'STRONG': case 'B':
-        markdown = `**${elementText}${childrenMarkdown}**`;
+        // Emphasis nested in the same emphasis adds nothing (and **** would not parse)
+        markdown = this.hasAncestorTag(info, ['STRONG', 'B']) ? content : this.wrapInline(content, this.getEmphasisDelimiter(info, content, this.options.strongDelimiter ?? '**'));
         break;
       case 'EM': case 'I':
-        markdown = `*${elementText}${childrenMarkdown}*`;
+        // Captions are already italic
+        markdown = this.hasAncestorTag(info, ['EM', 'I', 'FIGCAPTION']) ? content : this.wrapInline(content, this.getEmphasisDelimiter(info, content, this.options.emDelimiter ?? '*'));
         break;
+      case 'DEL': case 'S': case 'STRIKE':
+        // GFM strikethrough
+        markdown = this.hasAncestorTag(info, ['DEL', 'S', 'STRIKE']) ? content : this.wrapInline(content, '~~');
+        break;
+      case 'SUB': case 'SUP': {
+        const pandocDelimiter = tagName === 'SUB' ? '~' : '^';
+        markdown = this.options.subSupStyle === 'pandoc' ? this.wrapInline(content, pandocDelimiter)
+          : this.options.subSupStyle === 'text' ? content
+          : this.wrapInline(content, `<${tagName.toLowerCase()}>`, `</${tagName.toLowerCase()}>`);
+        break;
+      }
+      case 'KBD':
+        markdown = this.options.kbdStyle === 'code' ? toCodeSpan(getTextContent(id, this.elementStore, this.elementsToKeepIdsSet))
+          : this.options.kbdStyle === 'text' ? content
+          : this.wrapInline(content, '<kbd>', '</kbd>');
+        break;
+      case 'MARK':
+        markdown = this.options.markStyle === 'equals' ? this.wrapInline(content, '==')
+          : this.options.markStyle === 'text' ? content
+          : this.wrapInline(content, '<mark>', '</mark>');
+        break;
+      case 'U': case 'INS':
+        markdown = this.options.underlineStyle === 'html'
+          ? this.wrapInline(content, `<${tagName.toLowerCase()}>`, `</${tagName.toLowerCase()}>`)
+          : content;
+        break;
+      case 'Q':
+        markdown = this.wrapInline(content, '"');
+        break;
+      case 'ABBR': {
+        // The expansion follows the abbreviation, unless it is the same text
+        const title = info.attributes.title?.trim();
+        markdown = title && title !== content.trim() ? `${content} (${title})` : content;
+        break;
+      }
       case 'BLOCKQUOTE': {
         // Combine text within blockquote and child Markdown
-        const bqContent = (elementText + childrenMarkdown).trim();
-        // Add > to the beginning of each line
-        markdown = `${bqContent.split('\n').map(line => `${listIndent}> ${line.trim()}`).join('\n')}\n\n`;
+        const bqContent = collapseBlankLines(content.replace(/^\s*\n/, '')).trimEnd();
+        // Add > to the beginning of each line, keeping the indentation of nested lists and code
+        // (blank lines get a bare >; whitespace-only lines are left only in code)
+        markdown = `${bqContent.split('\n').map(line => `${listIndent}${line ? `> ${line}` : '>'}`).join('\n')}\n\n`;
         break;
       }
       case 'HR':
         markdown = `${listIndent}---\n\n`;
         break;
       case 'BR':
-        // Need to decide whether to use two spaces + newline or just a newline based on surrounding text
-        // Treat as GFM Hard break here
-        markdown = '  \n';
+        // Hard break: two trailing spaces or a trailing backslash
+        markdown = this.options.hardBreak === 'backslash' ? '\\\n' : '  \n';
         break;
+      // Layout tables are flattened to their content (data tables are handled above)
+      case 'TABLE': case 'THEAD': case 'TBODY': case 'TFOOT': case 'TR':
+        markdown = content;
+        break;
+      case 'TD': case 'TH': case 'CAPTION': {
+        const cellContent = content.trim();
+        markdown = cellContent ? `${listIndent}${cellContent}\n\n` : '';
+        break;
+      }
       // Ignored structural tags (output content only)
-      case 'DIV': case 'SPAN': case 'SECTION': case 'ARTICLE': case 'FIGURE': case 'FIGCAPTION': case 'HEADER': case 'FOOTER': case 'ASIDE': case 'NAV':
-        markdown = `${elementText}${childrenMarkdown}`;
+      case 'IFRAME': case 'EMBED': case 'OBJECT': case 'VIDEO': {
+        // Videos become a link to the video (with its thumbnail when known); the fallback content is used otherwise
+        const video = getVideoLink(id, this.elementStore);
+        if (!video) {
+          markdown = tagName === 'OBJECT' || tagName === 'VIDEO' ? content : '';
+          break;
+        }
+        const label = escapeMarkdownText(video.title, false, true);
+        const linkText = video.thumbnailUrl ? `![${label}](${escapeLinkDestination(this.resolveHref(video.thumbnailUrl))})` : label;
+        markdown = `${listIndent}${this.formatLink(linkText, video.url)}\n\n`;
+        break;
+      }
+      case 'FIGURE': {
+        // Content (usually the image) first, then the captions, wherever they are in the figure
+        const captions = getChildrenIds(id, this.elementStore)
+          .map(childId => this.elementStore.get(childId))
+          .filter((childInfo): childInfo is ElementInfo => childInfo?.tagName === 'FIGCAPTION' && this.elementsToKeepIdsSet.has(childInfo.id))
+          .map(captionInfo => this.convertCaption(this.convertContent(captionInfo, listLevel), listIndent));
+        markdown = `${content}${captions.join('')}`;
+        break;
+      }
+      case 'FIGCAPTION': {
+        // Captions directly in a figure are added by the FIGURE case
+        const parentTagName = info.parentId !== null ? this.elementStore.get(info.parentId)?.tagName : undefined;
+        markdown = parentTagName === 'FIGURE' ? '' : this.convertCaption(content, listIndent);
+        break;
+      }
+      case 'ADDRESS': {
+        // Contact information is a paragraph (its BRs are hard breaks)
+        const addressContent = content.trim();
+        markdown = addressContent ? `${listIndent}${addressContent}\n\n` : '';
+        break;
+      }
+      case 'DL':
+        // Terms and definitions end their own lines; the list ends with a blank line
+        markdown = content.trim() ? `${content}\n` : '';
+        break;
+      case 'DT': {
+        // Bold term on its own line
+        const term = content.replace(/\s*\n\s*/g, ' ').trim();
+        markdown = term ? `${listIndent}${this.wrapStrong(term, info)}\n` : '';
+        break;
+      }
+      case 'DD': {
+        // Definition after a colon, continuation lines indented (the definition list syntax of Pandoc and Markdown Extra)
+        const definition = content.trim();
+        const definitionLines = definition.split('\n').map((line, index) => (index === 0 || !line.trim() ? line.trim() : `${listIndent}    ${line}`));
+        markdown = definition ? `${listIndent}:   ${definitionLines.join('\n')}\n\n` : '';
+        break;
+      }
+      case 'DETAILS': {
+        const summaryInfo = getChildrenIds(id, this.elementStore)
+          .map(childId => this.elementStore.get(childId))
+          .find(childInfo => childInfo?.tagName === 'SUMMARY' && this.elementsToKeepIdsSet.has(childInfo.id));
+        const body = content.trim();
+        if (this.options.detailsStyle === 'text') {
+          // Summary as a bold line followed by the body
+          const summary = summaryInfo ? this.convertContent(summaryInfo, listLevel).replace(/\s*\n\s*/g, ' ').trim() : '';
+          markdown = summary ? `${listIndent}${this.wrapStrong(summary, info)}\n\n` : '';
+          markdown += body ? `${listIndent}${body}\n\n` : '';
+        } else {
+          // HTML passthrough: Markdown is parsed after a blank line, but not inside the summary line
+          const summary = summaryInfo ? escapeHtml(getTextContent(summaryInfo.id, this.elementStore, this.elementsToKeepIdsSet).replace(/\s+/g, ' ').trim()) : '';
+          const openTag = info.attributes.open !== undefined ? '<details open>' : '<details>';
+          const summaryLine = summary ? `${listIndent}<summary>${summary}</summary>\n` : '';
+          markdown = `${listIndent}${openTag}\n${summaryLine}\n${body ? `${listIndent}${body}\n\n` : ''}${listIndent}</details>\n\n`;
+        }
+        break;
+      }
+      case 'SUMMARY': {
+        // Summaries of DETAILS are added by the DETAILS case; others are paragraphs
+        const parentTagName = info.parentId !== null ? this.elementStore.get(info.parentId)?.tagName : undefined;
+        const summaryContent = content.trim();
+        markdown = parentTagName === 'DETAILS' || !summaryContent ? '' : `${listIndent}${summaryContent}\n\n`;
+        break;
+      }
+      case 'DIV': case 'SPAN': case 'SECTION': case 'ARTICLE': case 'HEADER': case 'FOOTER': case 'ASIDE': case 'NAV':
+        markdown = `${content}`;
         break;
       // Other unhandled tags
       default:
         if (!VOID_ELEMENTS.has(tagName)) {
           // Output content only for unhandled non-void elements
-          markdown = `${elementText}${childrenMarkdown}`;
+          markdown = `${content}`;
           if (this.options.debug) console.log(`Unhandled tag: ${tagName} - outputting content only.`);
         } else {
           // Completely ignore unhandled void elements
@@ -232,4 +561,325 @@ export class MarkdownConverter {
     }
     return markdown;
   }
+
+  /**
+   * Wrap inline content in delimiters. Surrounding whitespace is moved outside the delimiters
+   * (`** text**` is not emphasis) and whitespace-only content is not wrapped at all.
+   */
+  private wrapInline(content: string, openDelimiter: string, closeDelimiter = openDelimiter): string {
+    const trimmedContent = content.trim();
+    if (!trimmedContent) return content.length > 0 ? ' ' : '';
+    const leadingSpace = content.length > content.trimStart().length ? ' ' : '';
+    const trailingSpace = content.length > content.trimEnd().length ? ' ' : '';
+    return `${leadingSpace}${openDelimiter}${trimmedContent}${closeDelimiter}${trailingSpace}`;
+  }
+
+  /**
+   * Emphasis delimiter for an element: underscores cannot open or close emphasis inside a word (`foo_bar_baz`),
+   * so asterisks are used when the element touches a letter or digit of the text around it.
+   */
+  private getEmphasisDelimiter(info: ElementInfo, content: string, delimiter: string): string {
+    if (!delimiter.startsWith('_')) return delimiter;
+    const siblingNodes = info.parentId !== null ? this.elementStore.get(info.parentId)?.contentNodes ?? [] : [];
+    const index = siblingNodes.findIndex(node => node.type === 'element' && node.id === info.id);
+    const getNodeText = (node: ContentNode | undefined) => !node ? '' :
+      node.type === 'text' ? node.text : getTextContent(node.id, this.elementStore, this.elementsToKeepIdsSet);
+    const isAfterWord = !/^\s/.test(content) && isAlphanumeric(getNodeText(siblingNodes[index - 1]).slice(-1));
+    const isBeforeWord = !/\s$/.test(content) && isAlphanumeric(getNodeText(siblingNodes[index + 1]).charAt(0));
+    return index >= 0 && (isAfterWord || isBeforeWord) ? '*'.repeat(delimiter.length) : delimiter;
+  }
+
+  /** Check if an image is part of inline content: inside a link or an inline element, or next to text */
+  private isInlineImage(info: ElementInfo): boolean {
+    if (this.hasAncestorTag(info, ['A'])) return true;
+    let parentInfo = info.parentId !== null ? this.elementStore.get(info.parentId) : undefined;
+    while (parentInfo?.tagName === 'PICTURE') {
+      parentInfo = parentInfo.parentId !== null ? this.elementStore.get(parentInfo.parentId) : undefined;
+    }
+    if (!parentInfo || parentInfo.id === this.rootElementId) return false;
+    if (!BLOCK_ELEMENTS.has(parentInfo.tagName)) return true;
+    return parentInfo.contentNodes.some(node => node.type === 'text' && node.text.trim() !== '');
+  }
+
+  /** Level of a heading element after applying baseHeadingLevel (clamped to 1-6) */
+  private getHeadingLevel(tagName: string): number {
+    return Math.min(6, Math.max(1, Number(tagName.charAt(1)) + this.headingLevelOffset));
+  }
+
+  /**
+   * Find the heading the content starts with: the first kept heading in document order when no text,
+   * image or other content comes before it.
+   * @returns The heading ID, null when content comes first, undefined when the element has no content at all
+   */
+  private findLeadingHeadingId(id: number): number | null | undefined {
+    for (const node of this.elementStore.get(id)?.contentNodes ?? []) {
+      if (node.type === 'text') {
+        if (node.text.trim()) return null;
+        continue;
+      }
+      const childInfo = this.elementStore.get(node.id);
+      if (!childInfo || !this.elementsToKeepIdsSet.has(node.id)) continue;
+      if (/^H[1-6]$/.test(childInfo.tagName)) return node.id;
+      if (VOID_ELEMENTS.has(childInfo.tagName)) {
+        if (childInfo.tagName === 'BR' || childInfo.tagName === 'WBR') continue;
+        return null;
+      }
+      const headingId = this.findLeadingHeadingId(node.id);
+      if (headingId !== undefined) return headingId;
+    }
+    return undefined;
+  }
+
+  /** Make a line bold, unless it is already (partly) bold: strong emphasis does not nest */
+  private wrapStrong(content: string, info: ElementInfo): string {
+    const delimiter = this.options.strongDelimiter ?? '**';
+    return this.hasAncestorTag(info, ['STRONG', 'B']) || content.includes(delimiter) ? content : this.wrapInline(content, delimiter);
+  }
+
+  /** Check if the element is inside an element with one of the tag names */
+  private hasAncestorTag(info: ElementInfo, tagNames: string[]): boolean {
+    for (let parentId = info.parentId; parentId !== null;) {
+      const parentInfo = this.elementStore.get(parentId);
+      if (!parentInfo) return false;
+      if (tagNames.includes(parentInfo.tagName)) return true;
+      parentId = parentInfo.parentId;
+    }
+    return false;
+  }
+
+  /**
+   * Format a link in the configured link style (the text is not escaped).
+   * @param linkText Markdown of the link text
+   * @param href Link URL, resolved against the baseURI
+   * @param title Optional link title
+   */
+  private formatLink(linkText: string, href: string, title?: string): string {
+    if (this.options.linkStyle === 'stripped') return linkText;
+    const destination = escapeLinkDestination(this.resolveHref(href));
+    const target = `${destination}${title ? toLinkTitle(title) : ''}`;
+    if (this.options.linkStyle === 'referenced' && destination) {
+      // Numbered reference defined at the end of the document (with the title); identical targets share a number
+      let referenceNumber = this.linkReferenceNumbers.get(target);
+      if (referenceNumber === undefined) {
+        referenceNumber = this.linkReferenceNumbers.size + 1;
+        this.linkReferenceNumbers.set(target, referenceNumber);
+      }
+      return `[${linkText}][${referenceNumber}]`;
+    }
+    return `[${linkText}](${target})`;
+  }
+
+  /** Render a figure caption as an italic line */
+  private convertCaption(content: string, listIndent: string): string {
+    // Emphasis cannot span lines, so the caption is joined into one
+    const caption = content.replace(/\s*\n\s*/g, ' ').trim();
+    return caption ? `${listIndent}${this.wrapInline(caption, this.options.emDelimiter ?? '*')}\n\n` : '';
+  }
+
+  /** Plain text of the caption of the figure containing the element ('' if there is none) */
+  private getFigureCaptionText(info: ElementInfo): string {
+    const figureId = getAncestorIds(info.id, this.elementStore, 0).find(ancestorId => this.elementStore.get(ancestorId)?.tagName === 'FIGURE');
+    if (figureId === undefined) return '';
+    const captionId = getDescendantIds(figureId, this.elementStore)
+      .find(descendantId => this.elementStore.get(descendantId)?.tagName === 'FIGCAPTION' && this.elementsToKeepIdsSet.has(descendantId));
+    if (captionId === undefined) return '';
+    return getTextContent(captionId, this.elementStore, this.elementsToKeepIdsSet).replace(/\s+/g, ' ').trim();
+  }
+
+  /** Resolve a link href against the baseURI (fragments, mailto: and tel: links are kept as is) */
+  private resolveHref(href: string): string {
+    if (href && !href.startsWith('http') && !href.startsWith('#') && !href.startsWith('mailto:') && !href.startsWith('tel:')) {
+      try { return new URL(href, this.baseURI).href; }
+      catch (e) { console.warn(`Markdown Conv: Failed to resolve href: ${href}`); }
+    }
+    return href;
+  }
+
+  /**
+   * Converts the text runs and child elements of an element in document order.
+   * @param info Element whose content is converted
+   * @param listLevel Current nesting level of the list
+   * @param startsLine Whether the content starts a line of the output (block markers at its start are escaped)
+   * @returns Markdown of the element's content
+   */
+  private convertContent(info: ElementInfo, listLevel: number, startsLine = true): string {
+    const tagName = info.tagName;
+    const isLinkText = tagName === 'A' || this.hasAncestorTag(info, ['A']);
+    let content = '';
+    let listItemCount = 0;
+    const nextLevel = (tagName === 'UL' || tagName === 'OL' || tagName === 'LI') ? listLevel + 1 : 0; // Increase level within list-related elements
+    const isNextListOrdered = (tagName === 'OL'); // Tell the next level LI if the current one is OL
+    let isAfterBlock = false; // Inline content after a block starts a new paragraph
+    for (const node of info.contentNodes) {
+      if (node.type === 'text') {
+        // Source whitespace collapses like in rendered HTML (non-breaking spaces are kept), also across elements
+        let text = node.text.replace(/[ \t\n\r\f]+/g, ' ');
+        if (isAfterBlock && text.trim()) {
+          content = this.appendChildMarkdown(content, '', true, false);
+          isAfterBlock = false;
+        }
+        if (content.endsWith('\n') || content.endsWith(' ')) text = text.replace(/^ /, '');
+        if (!text) continue;
+        // Escape only what would be parsed as Markdown syntax at this position
+        const isLineStart = content.trim() === '' ? startsLine : /\n[ \t]*$/.test(content);
+        content += escapeMarkdownText(text, isLineStart, isLinkText);
+        continue;
+      }
+      const childTagName = this.elementStore.get(node.id)?.tagName ?? '';
+      if (tagName === 'OL' && childTagName === 'LI') listItemCount++;
+      const nextListItemNumber = (tagName === 'OL') ? listItemCount : 1; // Pass the number to the direct children of OL
+      const childMarkdown = this.convertNodeRecursive(
+        node.id,
+        nextLevel,
+        isNextListOrdered,
+        nextListItemNumber
+      );
+      if (!childMarkdown) continue;
+      const isBlock = BLOCK_ELEMENTS.has(childTagName);
+      // Items of a list and lists nested in an item are only separated by a line break (the list stays tight)
+      const isTight = tagName === 'UL' || tagName === 'OL' || tagName === 'DL' || (tagName === 'LI' && (childTagName === 'UL' || childTagName === 'OL'));
+      content = this.appendChildMarkdown(content, childMarkdown, isBlock || (isAfterBlock && childMarkdown.trim() !== ''), isTight);
+      if (isBlock || childMarkdown.trim()) isAfterBlock = isBlock;
+    }
+    return content;
+  }
+
+  /**
+   * Append the Markdown of a child element to the content converted so far.
+   * @param content Markdown converted so far
+   * @param childMarkdown Markdown of the child
+   * @param isSeparated Whether the child is separated from the content before it by a blank line (blocks and inline content after a block)
+   * @param isTight Whether a line break is enough to separate it (list items)
+   * @returns The content with the child appended
+   */
+  private appendChildMarkdown(content: string, childMarkdown: string, isSeparated: boolean, isTight: boolean): string {
+    if (!isSeparated) {
+      // Spaces before a line break (like before a display formula) would be trailing spaces
+      if (childMarkdown.startsWith('\n')) return content.replace(/[ \t]+$/, '') + childMarkdown;
+      return content + (content.endsWith(' ') ? childMarkdown.replace(/^ +/, '') : childMarkdown);
+    }
+    // Whitespace before a block is not part of any line
+    let separatedContent = content.replace(/[ \t]+$/, '');
+    if (separatedContent.trim()) {
+      if (!isTight) separatedContent = separatedContent.replace(/\n*$/, '\n\n');
+      else if (!separatedContent.endsWith('\n') && !childMarkdown.startsWith('\n')) separatedContent += '\n';
+    }
+    return separatedContent + childMarkdown;
+  }
+
+  /**
+   * Converts a data table to a GitHub-flavored Markdown table.
+   * The header row comes from THEAD or a first row made only of TH cells; otherwise an empty header is emitted.
+   * Cells spanning several columns are followed by empty cells.
+   * @param id ID of the TABLE element
+   * @param listIndent Indentation of the current list level
+   * @returns Markdown of the table
+   */
+  private convertTable(id: number, listIndent: string): string {
+    let caption = '';
+    let headerRowId: number | null = null;
+    const rowIds: number[] = [];
+    for (const childId of getChildrenIds(id, this.elementStore)) {
+      const childInfo = this.elementStore.get(childId);
+      if (!childInfo || !this.elementsToKeepIdsSet.has(childId)) continue;
+      if (childInfo.tagName === 'CAPTION') {
+        caption = this.convertContent(childInfo, 0).replace(/\s+/g, ' ').trim();
+      } else if (childInfo.tagName === 'TR') {
+        rowIds.push(childId);
+      } else if (childInfo.tagName === 'THEAD' || childInfo.tagName === 'TBODY' || childInfo.tagName === 'TFOOT') {
+        for (const rowId of getChildrenIds(childId, this.elementStore)) {
+          if (this.elementStore.get(rowId)?.tagName !== 'TR' || !this.elementsToKeepIdsSet.has(rowId)) continue;
+          if (childInfo.tagName === 'THEAD' && headerRowId === null) headerRowId = rowId;
+          rowIds.push(rowId);
+        }
+      }
+    }
+    if (rowIds.length === 0) return '';
+
+    if (headerRowId === null) {
+      const firstRowCells = this.getTableCellIds(rowIds[0]);
+      if (firstRowCells.length > 0 && firstRowCells.every(cellId => this.elementStore.get(cellId)?.tagName === 'TH')) {
+        headerRowId = rowIds[0];
+      }
+    }
+
+    const rows = rowIds.map(rowId => this.convertTableRow(rowId));
+    const alignments = headerRowId !== null ? this.getTableAlignments(headerRowId) : [];
+    const columnCount = Math.max(1, ...rows.map(row => row.length));
+    const headerRow = headerRowId !== null ? rows[rowIds.indexOf(headerRowId)] : [];
+    const bodyRows = rows.filter((_, index) => rowIds[index] !== headerRowId);
+
+    const formatRow = (cells: string[]) => {
+      const padded = Array.from({ length: columnCount }, (_, index) => cells[index] ?? '');
+      return `${listIndent}| ${padded.join(' | ')} |`;
+    };
+    const separator = Array.from({ length: columnCount }, (_, index) => {
+      switch (alignments[index]) {
+        case 'left': return ':---';
+        case 'center': return ':---:';
+        case 'right': return '---:';
+        default: return '---';
+      }
+    });
+
+    const lines = [formatRow(headerRow), `${listIndent}| ${separator.join(' | ')} |`, ...bodyRows.map(formatRow)];
+    const captionLine = caption ? `${listIndent}${caption}\n\n` : '';
+    return `${captionLine}${lines.join('\n')}\n\n`;
+  }
+
+  /** Get the kept TD/TH children of a table row */
+  private getTableCellIds(rowId: number): number[] {
+    return getChildrenIds(rowId, this.elementStore).filter(cellId => {
+      const cellTagName = this.elementStore.get(cellId)?.tagName;
+      return (cellTagName === 'TD' || cellTagName === 'TH') && this.elementsToKeepIdsSet.has(cellId);
+    });
+  }
+
+  /** Convert a table row to cell strings, expanding colspan into empty cells */
+  private convertTableRow(rowId: number): string[] {
+    const cells: string[] = [];
+    for (const cellId of this.getTableCellIds(rowId)) {
+      const cellInfo = this.elementStore.get(cellId);
+      if (!cellInfo) continue;
+      // Cells must stay on one line; pipes would end the cell
+      const cellContent = this.convertContent(cellInfo, 0, false)
+        .replace(/\s*\n\s*/g, ' ')
+        .trim()
+        .replace(/\|/g, '\\|');
+      cells.push(cellContent);
+      const colspan = Number.parseInt(cellInfo.attributes.colspan ?? '1', 10);
+      for (let i = 1; i < colspan && i < 1000; i++) cells.push('');
+    }
+    return cells;
+  }
+
+  /** Get the column alignments declared on the header row cells */
+  private getTableAlignments(rowId: number): string[] {
+    const alignments: string[] = [];
+    for (const cellId of this.getTableCellIds(rowId)) {
+      const attributes = this.elementStore.get(cellId)?.attributes ?? {};
+      const align = (attributes.align ?? attributes.style?.match(/text-align:\s*(\w+)/)?.[1] ?? '').toLowerCase();
+      const colspan = Number.parseInt(attributes.colspan ?? '1', 10);
+      for (let i = 0; i < colspan && i < 1000; i++) alignments.push(align);
+    }
+    return alignments;
+  }
+
+  private static defaultOptions: MarkdownConverterOptions = {
+    debug: false,
+    headingStyle: 'atx',
+    bulletListMarker: '*',
+    emDelimiter: '*',
+    strongDelimiter: '**',
+    codeBlockStyle: 'fenced',
+    fence: '```',
+    hardBreak: 'spaces',
+    linkStyle: 'inlined',
+    subSupStyle: 'html',
+    kbdStyle: 'html',
+    markStyle: 'html',
+    underlineStyle: 'text',
+    imageTargetWidth: 1024,
+    detailsStyle: 'html',
+  };
 }
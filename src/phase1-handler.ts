@@ -6,7 +6,7 @@ import type {
   ElementInfo,
   Metadata,
 } from './types'; // Import from types.ts
-import { extractMetadataFromElement, unescapeHtmlEntities } from './utils'; // Import from utils.ts
+import { extractMetadataFromElement, extractMetadataFromJsonLd, fixLazyImageAttributes, isElementVisible, isSkippedElement, unescapeHtmlEntities } from './utils'; // Import from utils.ts
 
 // HTMLRewriter types (import based on environment)
 // import type { Element, Comment, Text, Doctype, DocumentEnd } from '@cloudflare/workers-types';
@@ -20,31 +20,34 @@ export class Phase1Handler {
   private generateElementId: IdGenerator;
   private debugEnabled: boolean;
   private maxElemsToParse: number;
+  private allowedVideoRegex?: RegExp; // IFRAMEs are only stored when they match
   private elementStack: number[] = []; // Stack of currently nested element IDs
   private elementCount = 0;
-
-  // Map to store the last text chunk
-  // Key: elementId, Value: last processed (non-whitespace) chunk
-  private lastTextChunkMap: Map<number, string> = new Map();
+  private skippedElementDepth = 0; // Nesting depth inside skipped elements (SCRIPT, STYLE, ...)
+  private pendingText = ''; // Raw chunks of the current text node, decoded when the node ends (a character reference may span chunks)
+  private documentTitle: string | undefined; // Text of the first TITLE element, used when neither meta tags nor JSON-LD give a title
 
   /**
    * Initialize Phase1Handler.
    * @param elementStore Map to store element information (managed externally)
    * @param metadataStore Object to store metadata (managed externally)
    * @param idGenerator Function to generate element IDs (managed externally)
+   * @param allowedVideoRegex IFRAMEs with an attribute value matching it are stored, others are skipped
    */
   constructor(
     elementStore: Map<number, ElementInfo>,
     metadataStore: Metadata,
     idGenerator: IdGenerator,
     debugEnabled: boolean,
-    maxElemsToParse?: number
+    maxElemsToParse?: number,
+    allowedVideoRegex?: RegExp
   ) {
     this.elementStore = elementStore;
     this.metadataStore = metadataStore;
     this.generateElementId = idGenerator;
     this.debugEnabled = debugEnabled;
     this.maxElemsToParse = maxElemsToParse ?? 0;
+    this.allowedVideoRegex = allowedVideoRegex;
   }
 
   /** Get the ID of the currently processing element (top of stack) */
@@ -60,9 +63,20 @@ export class Phase1Handler {
     if (this.elementStack.length > 0) {
       console.warn(`Phase 1 End: Element stack is not empty: [${this.elementStack.join(', ')}]`);
     }
-    // Clear the Map
-    this.lastTextChunkMap.clear();
-    console.log("Phase 1: lastTextChunkMap cleared.");
+    // Fill metadata missing from meta tags with JSON-LD
+    if (this.metadataStore.jsonLd) {
+      const extractedJsonLd = extractMetadataFromJsonLd(this.metadataStore.jsonLd);
+      for (const key in extractedJsonLd) {
+        const metaKey = key as keyof Metadata;
+        if (!this.metadataStore[metaKey]) {
+          this.metadataStore[metaKey] = unescapeHtmlEntities(extractedJsonLd[metaKey]);
+        }
+      }
+    }
+    // The <title> element is the last resort (JSON-LD's headline is preferred, like in Readability.js)
+    if (!this.metadataStore.title && this.documentTitle) {
+      this.metadataStore.title = this.documentTitle;
+    }
   }
 
   // --- Element Handler ---
@@ -80,10 +94,20 @@ export class Phase1Handler {
     if (this.debugEnabled) console.log(`Phase1: [START] <${tagName}>`);
 
     // --- Skip unnecessary elements ---
-    if (tagName === "SCRIPT" || tagName === "STYLE" || tagName === "NOSCRIPT" || tagName === "IFRAME" ||
-      (tagName === 'LINK' && element.getAttribute('rel') === 'stylesheet')) {
+    if (isSkippedElement(tagName, element, this.allowedVideoRegex)) {
       if (this.debugEnabled) console.log(`Phase1: [SKIP] <${tagName}>`);
-      return; // Exit handler (onEndTag won't be registered)
+      // Track skipped contents so script/style text is not attributed to the parent element
+      if (!VOID_ELEMENTS.has(tagName)) {
+        try {
+          element.onEndTag(() => {
+            this.skippedElementDepth--;
+          });
+          this.skippedElementDepth++;
+        } catch (error) {
+          console.warn(`Phase1: Failed to register onEndTag for skipped <${tagName}>:`, error);
+        }
+      }
+      return; // Exit handler (no element info is stored)
     }
 
     // --- Prepare and store element information ---
@@ -91,13 +115,9 @@ export class Phase1Handler {
     const parentId = this.getCurrentElementIdFromStack(); // Parent is top of stack
     const attributes: ElementAttributes = {};
     for (const [key, value] of element.attributes) {
-      attributes[key.toLowerCase()] = value;
+      attributes[key.toLowerCase()] = unescapeHtmlEntities(value, true) ?? value;
     }
-    const isVisibleBasedOnAttrs =
-      element.getAttribute("hidden") === null &&
-      attributes.style?.includes('display: none') !== true &&
-      attributes.style?.includes('visibility: hidden') !== true &&
-      element.getAttribute("aria-hidden") !== "true";
+    const isVisibleBasedOnAttrs = isElementVisible(element);
     const role = element.getAttribute("role");
 
     // Store information in elementStore
@@ -107,6 +127,7 @@ export class Phase1Handler {
       tagName: tagName,
       attributes: attributes,
       textChunks: [], // Initialize chunks array
+      contentNodes: [], // Initialize ordered content
       finalTextContent: "", // Initialize final text
       isVisibleBasedOnAttrs: isVisibleBasedOnAttrs,
       role: role ?? null,
@@ -114,29 +135,21 @@ export class Phase1Handler {
       isCodeBlock: (tagName === 'PRE'),
     });
 
-    // Delete entry from Map when new element starts (to avoid comparing with previous element's chunks)
-    this.lastTextChunkMap.delete(elementId);
+    // Record this element at its position in the parent's content
+    if (parentId !== null) {
+      this.elementStore.get(parentId)?.contentNodes.push({ type: 'element', id: elementId });
+    }
 
     // --- Process specific tags (attribute changes and metadata collection) ---
-    if (tagName === 'IMG' || tagName === 'PICTURE' || tagName === 'FIGURE') {
-      const src = element.getAttribute('src');
-      const srcset = element.getAttribute('srcset');
-      const dataSrc = element.getAttribute('data-src');
-      const dataSrcset = element.getAttribute('data-srcset');
-      if (!src && dataSrc) {
-        element.setAttribute('src', dataSrc);
-        element.removeAttribute('data-src');
-      }
-      if (!srcset && dataSrcset) {
-        element.setAttribute('srcset', dataSrcset);
-        element.removeAttribute('data-srcset');
-      }
+    if (tagName === 'IMG' || tagName === 'SOURCE') {
+      // Real image URLs of lazy-loaded images (the stored attributes are used by later phases)
+      fixLazyImageAttributes(attributes);
     } else if (tagName === 'META') {
       const extractedMeta = extractMetadataFromElement(element);
       for (const key in extractedMeta) {
         const metaKey = key as keyof Metadata;
         if (!this.metadataStore[metaKey]) {
-          this.metadataStore[metaKey] = unescapeHtmlEntities(extractedMeta[metaKey]);
+          this.metadataStore[metaKey] = unescapeHtmlEntities(extractedMeta[metaKey], true);
         }
       }
     } else if (tagName === 'HTML') {
@@ -159,9 +172,6 @@ export class Phase1Handler {
           const finishedElementId = this.elementStack.pop();
           if (finishedElementId === undefined) return;
 
-          // Delete from Map when finished
-          this.lastTextChunkMap.delete(finishedElementId);
-
           const info = this.elementStore.get(finishedElementId);
           if (info) {
             // Combine text chunks and store in finalTextContent
@@ -170,8 +180,8 @@ export class Phase1Handler {
 
             if (this.debugEnabled) console.log(`Phase1: EndTag </${tagName}>#${finishedElementId}. Final text: "${info.finalTextContent.substring(0, 50)}..."`);
 
-            if (info.tagName === 'TITLE' && !this.metadataStore.title) {
-              this.metadataStore.title = unescapeHtmlEntities(info.finalTextContent.trim());
+            if (info.tagName === 'TITLE' && this.documentTitle === undefined) {
+              this.documentTitle = info.finalTextContent.trim();
             }
           } else {
             console.error(`Phase1: EndTag Error: ElementInfo not found for ID ${finishedElementId} (</${tagName}>)`);
@@ -181,9 +191,8 @@ export class Phase1Handler {
 
       } catch (error) {
         console.warn(`Phase1: Failed to register onEndTag for <${tagName}>#${elementId}:`, error);
-        // If registration fails, remove from stack and Map
+        // If registration fails, remove from stack
         if (this.elementStack.length > 0 && this.elementStack[this.elementStack.length - 1] === elementId) {
-          this.lastTextChunkMap.delete(elementId);
           this.elementStack.pop();
         }
         if (this.debugEnabled) console.log(`Phase1: [END] <${tagName}>#${elementId}, onEndTag registration failed`);
@@ -191,49 +200,51 @@ export class Phase1Handler {
     } else {
       // --- Process void elements ---
       if (this.debugEnabled) console.log(`Phase1: [END] Void element <${tagName}>#${elementId}`);
-      // Delete from Map for void elements too
-      this.lastTextChunkMap.delete(elementId);
       // Remove textChunks from void element info
       const voidInfo = this.elementStore.get(elementId);
       if (voidInfo) voidInfo.textChunks = undefined;
     }
   }
 
-  /** Text chunk processing */
+  /** Append text to the element's ordered content, merging with a preceding text run */
+  private appendTextNode(info: ElementInfo, text: string) {
+    const lastNode = info.contentNodes[info.contentNodes.length - 1];
+    if (lastNode?.type === 'text') {
+      lastNode.text += text;
+    } else {
+      info.contentNodes.push({ type: 'text', text });
+    }
+  }
+
+  /**
+   * Text chunk processing. Register this handler's text() on the document only: element handlers
+   * receive the same chunks again. Whitespace is kept as is (it matters in PRE and between inline elements).
+   */
   text(text: Text) {
+    if (this.skippedElementDepth > 0) return; // Contents of SCRIPT, STYLE, etc. (JSON-LD is read by JsonLdHandler)
+
     const currentElementId = this.getCurrentElementIdFromStack();
-    const newChunk = text.text; // Original text
-    const significantText = newChunk.trim().length > 0;
-
-    if (this.debugEnabled) console.log(`Phase1 Text Handler: currentElementId=${currentElementId}, hasSignificantText=${significantText}, chunk="${newChunk.substring(0, 50).replace(/\n/g, '\\n')}..."`);
-
-    if (currentElementId !== null && significantText) {
-      const currentInfo = this.elementStore.get(currentElementId);
-      if (currentInfo && !VOID_ELEMENTS.has(currentInfo.tagName)) {
-        // ★★★ Duplicate Check ★★★
-        const lastChunk = this.lastTextChunkMap.get(currentElementId);
-        if (lastChunk !== newChunk) {
-          // Add only if different from the previous chunk
-          if (!currentInfo.textChunks) currentInfo.textChunks = [];
-          currentInfo.textChunks.push(newChunk);
-          if (this.debugEnabled) console.log(`  -> Added to ${currentInfo.tagName}#${currentElementId}`);
-          // ★ Record the last added chunk (only if not whitespace)
-          this.lastTextChunkMap.set(currentElementId, newChunk);
-        } else {
-          if (this.debugEnabled) console.log(`  -> Skipped duplicate chunk for ${currentInfo.tagName}#${currentElementId}`);
-        }
-      }
-      else if (currentInfo) {
-        if (this.debugEnabled) console.log(`  -> Ignored for void element: ${currentInfo.tagName}#${currentElementId}`);
-      } else {
-        if (this.debugEnabled) console.log(`  -> Ignored because currentInfo not found for ID: ${currentElementId}`);
-      }
-    }
-    else if (currentElementId === null) {
+    if (this.debugEnabled) console.log(`Phase1 Text Handler: currentElementId=${currentElementId}, chunk="${text.text.substring(0, 50).replace(/\n/g, '\\n')}..."`);
+
+    if (currentElementId === null) {
       if (this.debugEnabled) console.log("  -> Ignored because stack is empty.");
-    } else {
-      if (this.debugEnabled) console.log("  -> Ignored because chunk is whitespace only.");
+      return;
     }
+    this.pendingText += text.text;
+    if (text.lastInTextNode) this.flushPendingText(currentElementId);
+  }
+
+  /** Decode the buffered text node and add it to the element's text */
+  private flushPendingText(elementId: number | null) {
+    const rawText = this.pendingText;
+    this.pendingText = '';
+    const info = elementId !== null ? this.elementStore.get(elementId) : undefined;
+    if (!rawText || !info) return;
+    // Script text (MathJax TeX) is not parsed for character references
+    const decodedText = info.tagName === 'SCRIPT' ? rawText : unescapeHtmlEntities(rawText) ?? '';
+    if (!info.textChunks) info.textChunks = [];
+    info.textChunks.push(decodedText);
+    this.appendTextNode(info, decodedText);
   }
 
 }
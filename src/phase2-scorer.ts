@@ -1,10 +1,15 @@
 import {
   CHAR_THRESHOLD,
   COMMAS_REGEX,
+  DEFAULT_FLAGS,
   DEFAULT_TAGS_TO_SCORE,
+  FLAG_CLEAN_CONDITIONALLY,
+  FLAG_STRIP_UNLIKELYS,
+  FLAG_WEIGHT_CLASSES,
+  MINIMUM_TOPCANDIDATES,
   NB_TOP_CANDIDATES
-
 } from './constants';
+import { cleanConditionally, cleanEmbeds } from './conditional-cleaner';
 import type { ElementInfo } from './types';
 import {
   getAncestorIds,
@@ -15,6 +20,7 @@ import {
   getInnerText,
   getLinkDensity,
   getParentId,
+  getTotalVisibleInnerText,
   isUnlikelyCandidate
 } from './utils';
 
@@ -26,28 +32,83 @@ interface ScoringOptions {
   linkDensityModifier?: number; // default 0
 }
 
-function initializeNodeScore(id: number, store: Map<number, ElementInfo>): ElementInfo | undefined {
+/** Result of Phase 2 */
+interface ScoringResult {
+  topCandidateId: number | null;
+  elementsToKeepIds: number[];
+  flags: number; // Flags of the attempt that produced the result
+}
+
+/** Result of a single scoring attempt */
+interface ScoringAttempt extends ScoringResult {
+  textLength: number;
+}
+
+function initializeNodeScore(id: number, store: Map<number, ElementInfo>, flags: number): ElementInfo | undefined {
   const info = getElementInfo(id, store);
   if (!info || info.readability) return undefined;
   info.readability = { contentScore: 0 };
   switch (info.tagName) {
     case "ARTICLE": case "DIV": info.readability.contentScore += 5; break;
     case "PRE": case "TD": case "BLOCKQUOTE": info.readability.contentScore += 3; break;
-    case "ADDRESS": /*...*/ info.readability.contentScore -= 3; break;
-    case "H1": /*...*/ info.readability.contentScore -= 5; break;
+    case "ADDRESS": case "OL": case "UL": case "DL": case "DD": case "DT": case "LI": case "FORM": info.readability.contentScore -= 3; break;
+    case "H1": case "H2": case "H3": case "H4": case "H5": case "H6": case "TH": info.readability.contentScore -= 5; break;
   }
-  info.readability.contentScore += getClassWeight(id, store);
+  info.readability.contentScore += getClassWeight(id, store, flags);
   return info
 }
 
 // --- Main Function ---
+/**
+ * Score elements and select the content to keep.
+ * Like Readability.js, while the result is shorter than charThreshold the scoring is rerun on the same
+ * elementStore with FLAG_STRIP_UNLIKELYS, FLAG_WEIGHT_CLASSES and FLAG_CLEAN_CONDITIONALLY disabled one after another.
+ * If every attempt is too short, the longest one is returned.
+ */
 export function calculateScoresAndFindBestCandidate(
   elementStore: Map<number, ElementInfo>,
   options: ScoringOptions
-): { topCandidateId: number | null, elementsToKeepIds: number[] } {
+): ScoringResult {
+  const { debug, charThreshold = CHAR_THRESHOLD } = options;
+  let flags = DEFAULT_FLAGS;
+  const attempts: ScoringAttempt[] = [];
+
+  while (true) {
+    // Scores from the previous attempt are discarded
+    for (const info of elementStore.values()) info.readability = undefined;
+
+    const attempt = scoreWithFlags(elementStore, options, flags);
+    if (attempt.topCandidateId !== null && attempt.textLength >= charThreshold) {
+      return { topCandidateId: attempt.topCandidateId, elementsToKeepIds: attempt.elementsToKeepIds, flags };
+    }
+    attempts.push(attempt);
+
+    if (flags & FLAG_STRIP_UNLIKELYS) flags &= ~FLAG_STRIP_UNLIKELYS;
+    else if (flags & FLAG_WEIGHT_CLASSES) flags &= ~FLAG_WEIGHT_CLASSES;
+    else if (flags & FLAG_CLEAN_CONDITIONALLY) flags &= ~FLAG_CLEAN_CONDITIONALLY;
+    else break;
+    if (debug) console.log(`Content is below charThreshold ${charThreshold}. Retrying with flags ${flags}.`);
+  }
+
+  // No attempt reached charThreshold: use the longest one
+  const bestAttempt = attempts.sort((a, b) => b.textLength - a.textLength)[0];
+  if (!bestAttempt || bestAttempt.topCandidateId === null || bestAttempt.textLength === 0) {
+    if (debug) console.log("No content found in any attempt. Returning null.");
+    return { topCandidateId: null, elementsToKeepIds: [], flags };
+  }
+  if (debug) console.log(`Using the longest attempt (flags ${bestAttempt.flags}, length ${bestAttempt.textLength}).`);
+  return { topCandidateId: bestAttempt.topCandidateId, elementsToKeepIds: bestAttempt.elementsToKeepIds, flags: bestAttempt.flags };
+}
+
+/** Run one scoring attempt with the given flags */
+function scoreWithFlags(
+  elementStore: Map<number, ElementInfo>,
+  options: ScoringOptions,
+  flags: number
+): ScoringAttempt {
   const { debug, nbTopCandidates = NB_TOP_CANDIDATES, charThreshold = CHAR_THRESHOLD, allowedVideoRegex, linkDensityModifier = 0 } = options;
 
-  if (debug) console.log("Starting Phase 2: Scoring...");
+  if (debug) console.log(`Starting Phase 2: Scoring with flags ${flags}...`);
   if (debug) console.log("Using options:", { nbTopCandidates, charThreshold, linkDensityModifier });
 
   const candidates = new Map<number, ElementInfo>();
@@ -56,7 +117,7 @@ export function calculateScoresAndFindBestCandidate(
   // 1. Identify elements to score
   for (const id of elementStore.keys()) {
     const info = getElementInfo(id, elementStore);
-    if (!info || !info.isVisibleBasedOnAttrs || isUnlikelyCandidate(id, elementStore)) continue;
+    if (!info || !info.isVisibleBasedOnAttrs || isUnlikelyCandidate(id, elementStore, flags)) continue;
     if (DEFAULT_TAGS_TO_SCORE.has(info.tagName)) {
       elementsToScoreIds.push(id);
     }
@@ -76,10 +137,10 @@ export function calculateScoresAndFindBestCandidate(
 
     ancestorIds.forEach((ancestorId: number, level: number) => {
       let ancestorInfo = getElementInfo(ancestorId, elementStore);
-      if (!ancestorInfo || !ancestorInfo.isVisibleBasedOnAttrs || isUnlikelyCandidate(ancestorId, elementStore)) return;
+      if (!ancestorInfo || !ancestorInfo.isVisibleBasedOnAttrs || isUnlikelyCandidate(ancestorId, elementStore, flags)) return;
 
       if (!ancestorInfo.readability) {
-        ancestorInfo = initializeNodeScore(ancestorId, elementStore);
+        ancestorInfo = initializeNodeScore(ancestorId, elementStore, flags);
         if (ancestorInfo && (ancestorInfo.readability?.contentScore ?? -1) >= 0) {
           candidates.set(ancestorId, ancestorInfo);
         }
@@ -104,58 +165,88 @@ export function calculateScoresAndFindBestCandidate(
     }
   }
 
-  // 4. Select top candidate
-  const sortedCandidates = Array.from(candidateScores.entries()).filter(([, score]) => score > 0).sort((a, b) => b[1] - a[1]);
-  if (sortedCandidates.length === 0) { /* ... Error handling ... */ return { topCandidateId: null, elementsToKeepIds: [] }; }
-  let topCandidateId: number | null = sortedCandidates[0][0];
-  let topCandidateScore = sortedCandidates[0][1];
-  if (debug) console.log(`Initial Top Candidate: ${getElementInfo(topCandidateId, elementStore)?.tagName}#${topCandidateId} (Score: ${topCandidateScore.toFixed(2)})`);
-
-  // 5. Candidate improvement logic (traverse up to parent)
-  let currentCandidateId = topCandidateId;
-  let currentScore = topCandidateScore;
-  let parentId = getParentId(currentCandidateId, elementStore);
-  while (parentId) {
-    const parentInfo = getElementInfo(parentId, elementStore);
-    const parentScore = parentInfo?.readability?.contentScore ?? -1;
-    if (parentScore < currentScore / 3) break;
-    if (parentScore > currentScore) {
-      currentCandidateId = parentId;
-      currentScore = parentScore;
-      parentId = getParentId(currentCandidateId, elementStore);
-    } else { break; }
+  // 4. Select top candidates
+  const topCandidates = Array.from(candidateScores.entries()).filter(([, score]) => score > 0).sort((a, b) => b[1] - a[1]).slice(0, nbTopCandidates);
+  if (topCandidates.length === 0) { /* ... Error handling ... */ return { topCandidateId: null, elementsToKeepIds: [], flags, textLength: 0 }; }
+  let topCandidateId: number = topCandidates[0][0];
+  const initialTopCandidateScore = topCandidates[0][1];
+  if (debug) console.log(`Initial Top Candidate: ${getElementInfo(topCandidateId, elementStore)?.tagName}#${topCandidateId} (Score: ${initialTopCandidateScore.toFixed(2)})`);
+
+  // 5. Candidate improvement logic
+  // 5a. If enough other top candidates score close to the best one, prefer an ancestor they share with it
+  const alternativeCandidateAncestors: number[][] = [];
+  for (const [candidateId, score] of topCandidates.slice(1)) {
+    if (score / initialTopCandidateScore >= 0.75) {
+      alternativeCandidateAncestors.push(getAncestorIds(candidateId, elementStore, 0));
+    }
   }
-  topCandidateId = currentCandidateId;
-  topCandidateScore = currentScore;
-  // (Similarly implement single child element logic)
+  let parentId = getParentId(topCandidateId, elementStore);
+  if (alternativeCandidateAncestors.length >= MINIMUM_TOPCANDIDATES) {
+    while (parentId && getElementInfo(parentId, elementStore)?.tagName !== 'BODY') {
+      const ancestorId = parentId;
+      const listsContainingThisAncestor = alternativeCandidateAncestors.filter(ancestors => ancestors.includes(ancestorId)).length;
+      if (listsContainingThisAncestor >= MINIMUM_TOPCANDIDATES) {
+        topCandidateId = parentId;
+        break;
+      }
+      parentId = getParentId(parentId, elementStore);
+    }
+  }
+  initializeNodeScore(topCandidateId, elementStore, flags);
+
+  // 5b. Traverse up to a parent whose score is higher (unscored parents are skipped)
   parentId = getParentId(topCandidateId, elementStore);
-  let topCandidateInfo = getElementInfo(topCandidateId, elementStore);
-  while (parentId && topCandidateInfo && topCandidateInfo.tagName !== 'BODY') {
-    const parentChildren = getChildrenIds(parentId, elementStore);
-    if (parentChildren.length === 1) {
+  let lastScore = getElementInfo(topCandidateId, elementStore)?.readability?.contentScore ?? 0;
+  const scoreThreshold = lastScore / 3;
+  while (parentId && getElementInfo(parentId, elementStore)?.tagName !== 'BODY') {
+    const parentScore = getElementInfo(parentId, elementStore)?.readability?.contentScore;
+    if (parentScore === undefined) {
+      parentId = getParentId(parentId, elementStore);
+      continue;
+    }
+    if (parentScore < scoreThreshold) break;
+    if (parentScore > lastScore) {
       topCandidateId = parentId;
-      topCandidateInfo = getElementInfo(topCandidateId, elementStore);
-      parentId = getParentId(topCandidateId, elementStore);
-    } else { break; }
+      break;
+    }
+    lastScore = parentScore;
+    parentId = getParentId(parentId, elementStore);
   }
 
+  // 5c. If the top candidate is the only child, use the parent instead
+  parentId = getParentId(topCandidateId, elementStore);
+  while (parentId && getElementInfo(parentId, elementStore)?.tagName !== 'BODY' && getChildrenIds(parentId, elementStore).length === 1) {
+    topCandidateId = parentId;
+    parentId = getParentId(topCandidateId, elementStore);
+  }
+  initializeNodeScore(topCandidateId, elementStore, flags);
+  const topCandidateInfo = getElementInfo(topCandidateId, elementStore);
+  const topCandidateScore = topCandidateInfo?.readability?.contentScore ?? 0;
 
   // 6. Combine sibling elements
   const elementsToKeepIdsSet = new Set<number>();
   const finalTopCandidateParentId = getParentId(topCandidateId, elementStore);
-  if (finalTopCandidateParentId && topCandidateId) {
+  if (finalTopCandidateParentId) {
     const siblings = getChildrenIds(finalTopCandidateParentId, elementStore);
     const siblingScoreThreshold = Math.max(10, topCandidateScore * 0.2);
+    const topCandidateClassName = topCandidateInfo?.attributes.class ?? '';
     for (const siblingId of siblings) {
       const siblingInfo = getElementInfo(siblingId, elementStore);
       if (!siblingInfo || !siblingInfo.isVisibleBasedOnAttrs) continue;
       let append = false;
       if (siblingId === topCandidateId) append = true;
       else {
-        const siblingScore = siblingInfo.readability?.contentScore ?? 0;
-        const contentBonus = 0; /* ... */
-        if (siblingScore + contentBonus >= siblingScoreThreshold) append = true;
-        else if (siblingInfo.tagName === 'P') { /* ... P tag evaluation ... */ }
+        // Give a bonus if the sibling and the top candidate have the same class name
+        const contentBonus = (topCandidateClassName !== '' && siblingInfo.attributes.class === topCandidateClassName) ? topCandidateScore * 0.2 : 0;
+        if (siblingInfo.readability && siblingInfo.readability.contentScore + contentBonus >= siblingScoreThreshold) append = true;
+        else if (siblingInfo.tagName === 'P') {
+          // Keep paragraphs that are long with few links, or short, link-free and sentence-like
+          const linkDensity = getLinkDensity(siblingId, elementStore);
+          const nodeContent = getTotalVisibleInnerText(siblingId, elementStore);
+          const nodeLength = nodeContent.length;
+          if (nodeLength > 80 && linkDensity < 0.25) append = true;
+          else if (nodeLength < 80 && nodeLength > 0 && linkDensity === 0 && /\.( |$)/.test(nodeContent)) append = true;
+        }
       }
       if (append) {
         elementsToKeepIdsSet.add(siblingId);
@@ -164,13 +255,18 @@ export function calculateScoresAndFindBestCandidate(
         }
       }
     }
-  } else if (topCandidateId) {
+  } else {
     elementsToKeepIdsSet.add(topCandidateId);
     for (const id of getDescendantIds(topCandidateId, elementStore)) {
       elementsToKeepIdsSet.add(id);
     }
   }
-  const elementsToKeepIds = Array.from(elementsToKeepIdsSet);
+
+  // 6.5. Remove embeds other than allowed videos, then clutter (only while FLAG_CLEAN_CONDITIONALLY is active)
+  const elementsWithoutEmbeds = cleanEmbeds(elementStore, Array.from(elementsToKeepIdsSet), { debug, allowedVideoRegex });
+  const elementsToKeepIds = cleanConditionally(elementStore, elementsWithoutEmbeds, {
+    debug, flags, allowedVideoRegex, linkDensityModifier,
+  });
 
   // 7. Check character count
   let totalTextLength = 0;
@@ -179,12 +275,8 @@ export function calculateScoresAndFindBestCandidate(
     if (info?.isVisibleBasedOnAttrs) totalTextLength += getInnerText(id, elementStore).length;
   }
   if (debug) console.log(`Final combined text length (estimated): ${totalTextLength}`);
-  if (totalTextLength < charThreshold) {
-    if (debug) console.log(`Content length ${totalTextLength} is below charThreshold ${charThreshold}. Returning null.`);
-    return { topCandidateId: null, elementsToKeepIds: [] };
-  }
 
-  // 8. Return results
-  if (debug) console.log(`Phase 2 Completed. Final Top Candidate: ${getElementInfo(topCandidateId, elementStore)?.tagName}#${topCandidateId}. Elements to keep: ${elementsToKeepIds.length}`);
-  return { topCandidateId, elementsToKeepIds };
+  // 8. Return results (charThreshold is checked by the caller)
+  if (debug) console.log(`Phase 2 attempt completed. Top Candidate: ${getElementInfo(topCandidateId, elementStore)?.tagName}#${topCandidateId}. Elements to keep: ${elementsToKeepIds.length}`);
+  return { topCandidateId, elementsToKeepIds, flags, textLength: totalTextLength };
 }
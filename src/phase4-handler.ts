@@ -0,0 +1,135 @@
+// phase4-handler.ts
+
+import { VOID_ELEMENTS } from './constants';
+import type { ElementAttributes, ElementInfo, Phase4HandlerOptions } from './types';
+import { escapeHtml, fixLazyImageAttributes, isJavaScriptURI, isOutputElement, isSkippedElement, sanitizeAttributes, unescapeHtmlEntities } from './utils';
+
+/**
+ * HTMLRewriter handler for the second pass over the original Response.
+ * Elements are numbered exactly like Phase1Handler does, so the IDs selected in Phase 2 can be matched
+ * while the document streams through: kept elements are cleaned in place, ancestors of the kept subtree
+ * are unwrapped and everything else is removed.
+ */
+export class Phase4Handler {
+  private elementStore: Map<number, ElementInfo>;
+  private elementsToKeepIdsSet: Set<number>;
+  private ancestorIdsSet: Set<number>;
+  private options: Phase4HandlerOptions;
+  private maxElemsToParse: number;
+  private debugEnabled: boolean;
+  private elementStack: number[] = []; // Stack of currently nested element IDs
+  private elementCount = 0;
+  private elementCounter = 0;
+
+  /**
+   * Initialize Phase4Handler.
+   * @param elementStore Elements collected in Phase 1 (for the checks shared with the HTML serializer)
+   * @param elementsToKeepIdsSet IDs of the elements selected in Phase 2
+   * @param ancestorIdsSet IDs of the elements enclosing the kept subtree (unwrapped, content kept)
+   * @param options Formatting options for kept elements
+   * @param maxElemsToParse Same limit as used in Phase 1
+   */
+  constructor(
+    elementStore: Map<number, ElementInfo>,
+    elementsToKeepIdsSet: Set<number>,
+    ancestorIdsSet: Set<number>,
+    options: Phase4HandlerOptions,
+    maxElemsToParse?: number
+  ) {
+    this.elementStore = elementStore;
+    this.elementsToKeepIdsSet = elementsToKeepIdsSet;
+    this.ancestorIdsSet = ancestorIdsSet;
+    this.options = options;
+    this.maxElemsToParse = maxElemsToParse ?? 0;
+    this.debugEnabled = options.formattingOptions?.debug ?? false;
+  }
+
+  /** Process element start tag */
+  element(element: Element) {
+    if (this.maxElemsToParse > 0 && this.elementCount >= this.maxElemsToParse) {
+      element.remove();
+      return;
+    }
+    this.elementCount++;
+    const tagName = element.tagName.toUpperCase();
+
+    // Skipped elements have no ID in Phase 1
+    if (isSkippedElement(tagName, element, this.options.formattingOptions?.allowedVideoRegex)) {
+      element.remove();
+      return;
+    }
+
+    const elementId = ++this.elementCounter;
+    if (this.elementsToKeepIdsSet.has(elementId)) {
+      this.cleanElement(elementId, tagName, element);
+    } else if (this.ancestorIdsSet.has(elementId)) {
+      element.removeAndKeepContent();
+    } else {
+      element.remove();
+    }
+    if (this.debugEnabled) console.log(`Phase4: <${tagName}>#${elementId} kept=${this.elementsToKeepIdsSet.has(elementId)}`);
+
+    if (!VOID_ELEMENTS.has(tagName)) {
+      this.elementStack.push(elementId);
+      try {
+        element.onEndTag(() => {
+          this.elementStack.pop();
+        });
+      } catch (error) {
+        console.warn(`Phase4: Failed to register onEndTag for <${tagName}>#${elementId}:`, error);
+        this.elementStack.pop();
+      }
+    }
+  }
+
+  /** Remove text that is not directly inside a kept element */
+  text(text: Text) {
+    const currentElementId = this.elementStack[this.elementStack.length - 1];
+    if (currentElementId === undefined || !this.elementsToKeepIdsSet.has(currentElementId)) {
+      text.remove();
+    }
+  }
+
+  /** Remove all comments */
+  comments(comment: Comment) {
+    comment.remove();
+  }
+
+  /** Apply the same attribute cleanup as the HTML serializer to a kept element */
+  private cleanElement(elementId: number, tagName: string, element: Element) {
+    // Unsafe elements are removed like in the HTML serializer (embeds are only kept when they are allowed videos)
+    if (!isOutputElement(elementId, this.elementStore, this.options.formattingOptions?.allowedVideoRegex)) {
+      element.remove();
+      return;
+    }
+
+    // Values are decoded like in Phase 1, so the checks see the same values as the HTML serializer
+    const attributes: ElementAttributes = {};
+    for (const [key, value] of element.attributes) {
+      attributes[key.toLowerCase()] = unescapeHtmlEntities(value, true) ?? value;
+    }
+
+    // Links that would run script are replaced by their content
+    if (tagName === 'A' && isJavaScriptURI(attributes.href)) {
+      element.removeAndKeepContent();
+      return;
+    }
+
+    const fixedAttributes = { ...attributes };
+    if (tagName === 'IMG' || tagName === 'SOURCE') fixLazyImageAttributes(fixedAttributes);
+    // Images without any usable source (only a placeholder) are dropped
+    if (tagName === 'IMG' && !fixedAttributes.src && !fixedAttributes.srcset) {
+      element.remove();
+      return;
+    }
+
+    const sanitized = sanitizeAttributes(tagName, fixedAttributes, this.options);
+    for (const name of Object.keys(attributes)) {
+      if (!(name in sanitized)) element.removeAttribute(name);
+    }
+    for (const [name, value] of Object.entries(sanitized)) {
+      // setAttribute only escapes double quotes
+      if (attributes[name] !== value) element.setAttribute(name, escapeHtml(value));
+    }
+  }
+}
@@ -0,0 +1,204 @@
+// plain-text-converter.ts
+
+import { BLOCK_ELEMENTS } from './constants';
+import type { ElementInfo, PlainTextOptions, RenderContext, Renderer } from './types';
+import { getChildrenIds, getCodeText, getMathFormula, isCodeGutter, isRenderedMath } from './utils';
+
+export interface PlainTextConverterOptions extends PlainTextOptions {
+  debug?: boolean;
+}
+
+/**
+ * Converts the kept elements to plain text for search indexing and embeddings:
+ * paragraphs are separated by blank lines, list items are prefixed, table cells are tab-separated
+ * and nothing is escaped. Lines are optionally wrapped at `wrapWidth` columns (code is never wrapped).
+ */
+export class PlainTextConverter implements Renderer<string> {
+  private elementStore: Map<number, ElementInfo> = new Map();
+  private elementsToKeepIdsSet: Set<number> = new Set();
+  private options: PlainTextConverterOptions;
+
+  constructor(options: PlainTextConverterOptions = {}) {
+    this.options = { ...PlainTextConverter.defaultOptions, ...options };
+  }
+
+  public render(context: RenderContext): string {
+    this.elementStore = context.elementStore;
+    this.elementsToKeepIdsSet = context.elementsToKeepIdsSet;
+    return this.convert(context.rootElementId);
+  }
+
+  private convert(rootElementId: number): string {
+    if (this.options.debug) console.log("Converting extracted elements to plain text...");
+
+    // Only the kept children of the root are converted (the root's own text is not part of the content)
+    const blocks: string[] = [];
+    let inlineText = '';
+    for (const childId of getChildrenIds(rootElementId, this.elementStore)) {
+      const childInfo = this.elementStore.get(childId);
+      if (!childInfo || !this.elementsToKeepIdsSet.has(childId)) continue;
+      if (BLOCK_ELEMENTS.has(childInfo.tagName)) {
+        this.flushParagraph(blocks, inlineText, this.options.wrapWidth ?? 0);
+        inlineText = '';
+        blocks.push(...this.convertBlock(childInfo, this.options.wrapWidth ?? 0));
+      } else {
+        inlineText += this.convertInline(childInfo);
+      }
+    }
+    this.flushParagraph(blocks, inlineText, this.options.wrapWidth ?? 0);
+
+    if (this.options.debug) console.log("Plain text conversion finished.");
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Converts a block element to paragraphs.
+   * @param info Block element to convert
+   * @param width Column to wrap at (0 = no wrapping)
+   * @returns Paragraphs without surrounding blank lines
+   */
+  private convertBlock(info: ElementInfo, width: number): string[] {
+    if (isRenderedMath(info.id, this.elementStore)) return [];
+    switch (info.tagName) {
+      case 'PRE': {
+        // Code keeps its whitespace and is never wrapped (line-number gutters are not code)
+        if (isCodeGutter(info.id, this.elementStore)) return [];
+        const code = getCodeText(info.id, this.elementStore, this.elementsToKeepIdsSet).replace(/^\r?\n/, '').replace(/\s+$/, '');
+        return code.trim() ? [code] : [];
+      }
+      case 'UL': case 'OL':
+        return this.convertList(info, width);
+      case 'TABLE': case 'THEAD': case 'TBODY': case 'TFOOT':
+        return this.convertTableRows(info);
+      case 'TR': {
+        const row = this.convertTableRow(info);
+        return row ? [row] : [];
+      }
+      case 'HR':
+        return [];
+      default:
+        return this.convertBlockContent(info, width);
+    }
+  }
+
+  /** Converts the content of a block container, turning runs of inline content into paragraphs */
+  private convertBlockContent(info: ElementInfo, width: number): string[] {
+    const blocks: string[] = [];
+    let inlineText = '';
+    for (const node of info.contentNodes) {
+      if (node.type === 'text') {
+        // Source whitespace collapses like in rendered HTML; only BR starts a new line
+        inlineText += node.text.replace(/\s+/g, ' ');
+        continue;
+      }
+      const childInfo = this.elementStore.get(node.id);
+      if (!childInfo || !this.elementsToKeepIdsSet.has(node.id)) continue;
+      if (BLOCK_ELEMENTS.has(childInfo.tagName)) {
+        this.flushParagraph(blocks, inlineText, width);
+        inlineText = '';
+        blocks.push(...this.convertBlock(childInfo, width));
+      } else {
+        inlineText += this.convertInline(childInfo);
+      }
+    }
+    this.flushParagraph(blocks, inlineText, width);
+    return blocks;
+  }
+
+  /** Converts an inline element to text (line breaks are kept as newlines) */
+  private convertInline(info: ElementInfo): string {
+    if (info.tagName === 'BR') return '\n';
+    // Formulas are written as their TeX source (MathJax's rendering of them is skipped)
+    if (isRenderedMath(info.id, this.elementStore)) return '';
+    const formula = getMathFormula(info.id, this.elementStore);
+    if (formula) return formula.isDisplay ? `\n${formula.tex}\n` : formula.tex;
+    let text = '';
+    for (const node of info.contentNodes) {
+      if (node.type === 'text') {
+        text += node.text.replace(/\s+/g, ' ');
+      } else if (this.elementsToKeepIdsSet.has(node.id)) {
+        const childInfo = this.elementStore.get(node.id);
+        if (childInfo) text += this.convertInline(childInfo);
+      }
+    }
+    return text;
+  }
+
+  /** Converts list items, prefixing the first line and indenting the following ones */
+  private convertList(info: ElementInfo, width: number): string[] {
+    const items: string[] = [];
+    let itemNumber = 0;
+    for (const childId of getChildrenIds(info.id, this.elementStore)) {
+      const childInfo = this.elementStore.get(childId);
+      if (!childInfo || !this.elementsToKeepIdsSet.has(childId)) continue;
+      itemNumber++;
+      const prefix = info.tagName === 'OL' ? `${itemNumber}. ` : this.options.listItemPrefix ?? '- ';
+      const indent = ' '.repeat(prefix.length);
+      const itemWidth = width > 0 ? Math.max(1, width - prefix.length) : 0;
+      const itemText = this.convertBlock(childInfo, itemWidth).join('\n');
+      if (!itemText) continue;
+      items.push(itemText.split('\n').map((line, index) => (index === 0 ? prefix : line ? indent : '') + line).join('\n'));
+    }
+    return items.length > 0 ? [items.join('\n')] : [];
+  }
+
+  /** Converts the rows of a table (or table section), one line per row */
+  private convertTableRows(info: ElementInfo): string[] {
+    const rows: string[] = [];
+    for (const childId of getChildrenIds(info.id, this.elementStore)) {
+      const childInfo = this.elementStore.get(childId);
+      if (!childInfo || !this.elementsToKeepIdsSet.has(childId)) continue;
+      if (childInfo.tagName === 'TR') {
+        const row = this.convertTableRow(childInfo);
+        if (row) rows.push(row);
+      } else if (childInfo.tagName === 'CAPTION') {
+        rows.push(...this.convertBlockContent(childInfo, 0));
+      } else {
+        rows.push(...this.convertTableRows(childInfo));
+      }
+    }
+    return rows.length > 0 ? [rows.join('\n')] : [];
+  }
+
+  /** Converts a table row to tab-separated cells */
+  private convertTableRow(info: ElementInfo): string {
+    const cells: string[] = [];
+    for (const cellId of getChildrenIds(info.id, this.elementStore)) {
+      const cellInfo = this.elementStore.get(cellId);
+      if (!cellInfo || !this.elementsToKeepIdsSet.has(cellId)) continue;
+      if (cellInfo.tagName !== 'TD' && cellInfo.tagName !== 'TH') continue;
+      cells.push(this.convertBlockContent(cellInfo, 0).join(' ').replace(/\s+/g, ' '));
+    }
+    return cells.some(cell => cell) ? cells.join('\t') : '';
+  }
+
+  /** Normalize whitespace of inline text, wrap it and add it as a paragraph */
+  private flushParagraph(blocks: string[], inlineText: string, width: number) {
+    const lines = inlineText.split('\n').map(line => line.trim());
+    const paragraph = lines.map(line => this.wrapLine(line, width)).join('\n').trim();
+    if (paragraph) blocks.push(paragraph);
+  }
+
+  /** Wrap a line at word boundaries (words longer than the width are not split) */
+  private wrapLine(line: string, width: number): string {
+    if (width <= 0 || line.length <= width) return line;
+    const wrapped: string[] = [];
+    let current = '';
+    for (const word of line.split(' ')) {
+      if (current && current.length + 1 + word.length > width) {
+        wrapped.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) wrapped.push(current);
+    return wrapped.join('\n');
+  }
+
+  private static defaultOptions: PlainTextConverterOptions = {
+    debug: false,
+    wrapWidth: 0,
+    listItemPrefix: '- ',
+  };
+}
@@ -0,0 +1,109 @@
+// readerable-handler.ts
+
+import { OK_MAYBE_ITS_A_CANDIDATE_REGEX, UNLIKELY_CANDIDATES_REGEX, VOID_ELEMENTS } from './constants';
+import { isElementVisible, isSkippedElement } from './utils';
+
+/** State of an open element tracked by ReaderableHandler */
+interface OpenElement {
+  tagName: string;
+  isEligible: boolean; // Visible, not an unlikely candidate and not a paragraph inside a list item
+  isCandidate: boolean; // Counted when the element ends
+  textLength: number | null; // Length of the text content without leading whitespace, counted for possible candidates only
+  trailingWhitespace: number; // Length of the whitespace at the end of the counted text
+}
+
+/**
+ * Lightweight HTMLRewriter handler implementing Readability.js's isProbablyReaderable heuristic:
+ * P, PRE and ARTICLE elements (and DIVs containing a BR) add sqrt(textLength - minContentLength)
+ * to the score when their text is long enough. Nothing is stored besides the open element stack.
+ */
+export class ReaderableHandler {
+  private minContentLength: number;
+  private minScore: number;
+  private debugEnabled: boolean;
+  private elementStack: OpenElement[] = [];
+  private skippedElementDepth = 0; // Nesting depth inside skipped elements (SCRIPT, STYLE, ...)
+  private score = 0;
+
+  constructor(minContentLength: number, minScore: number, debugEnabled: boolean) {
+    this.minContentLength = minContentLength;
+    this.minScore = minScore;
+    this.debugEnabled = debugEnabled;
+  }
+
+  /** Whether the score collected so far exceeds minScore */
+  get isReaderable(): boolean {
+    return this.score > this.minScore;
+  }
+
+  /** Process element start tag */
+  element(element: Element) {
+    const tagName = element.tagName.toUpperCase();
+
+    if (isSkippedElement(tagName, element)) {
+      if (!VOID_ELEMENTS.has(tagName)) {
+        this.skippedElementDepth++;
+        element.onEndTag(() => {
+          this.skippedElementDepth--;
+        });
+      }
+      return;
+    }
+
+    // A BR directly inside a DIV makes the DIV a candidate
+    const parent = this.elementStack[this.elementStack.length - 1];
+    if (tagName === 'BR' && parent?.tagName === 'DIV' && parent.isEligible) {
+      parent.isCandidate = true;
+    }
+    if (VOID_ELEMENTS.has(tagName)) return;
+
+    const matchString = `${element.getAttribute('class') ?? ''} ${element.getAttribute('id') ?? ''}`;
+    const isEligible = isElementVisible(element) &&
+      !(UNLIKELY_CANDIDATES_REGEX.test(matchString) && !OK_MAYBE_ITS_A_CANDIDATE_REGEX.test(matchString)) &&
+      !(tagName === 'P' && this.elementStack.some(openElement => openElement.tagName === 'LI'));
+    const isCandidate = isEligible && (tagName === 'P' || tagName === 'PRE' || tagName === 'ARTICLE');
+    const openElement: OpenElement = {
+      tagName,
+      isEligible,
+      isCandidate,
+      textLength: isEligible && (isCandidate || tagName === 'DIV') ? 0 : null,
+      trailingWhitespace: 0,
+    };
+    try {
+      element.onEndTag(() => {
+        this.elementStack.pop();
+        if (!openElement.isCandidate || openElement.textLength === null) return;
+        const textContentLength = openElement.textLength - openElement.trailingWhitespace;
+        if (textContentLength < this.minContentLength) return;
+        this.score += Math.sqrt(textContentLength - this.minContentLength);
+        if (this.debugEnabled) console.log(`Readerable: <${tagName}> length=${textContentLength}, score=${this.score.toFixed(2)}`);
+      });
+    } catch (error) {
+      // Elements without an end tag (e.g. self-closing SVG children like <path/>) have no content to count
+      if (this.debugEnabled) console.log(`Readerable: <${tagName}> has no end tag`);
+      return;
+    }
+    // Pushed only once the end tag handler is registered, so the stack is always popped
+    this.elementStack.push(openElement);
+  }
+
+  /** Count the text chunk for every open element whose text is collected (equivalent to textContent.trim().length) */
+  text(text: Text) {
+    if (this.skippedElementDepth > 0 || !text.text) return;
+    const chunk = text.text;
+    const trailingWhitespace = chunk.length - chunk.trimEnd().length;
+    const isWhitespaceOnly = trailingWhitespace === chunk.length;
+    for (const openElement of this.elementStack) {
+      if (openElement.textLength === null) continue;
+      if (openElement.textLength === 0) {
+        // Leading whitespace is not counted
+        const trimmedLength = chunk.trimStart().length;
+        openElement.textLength = trimmedLength;
+        openElement.trailingWhitespace = trimmedLength === 0 ? 0 : trailingWhitespace;
+      } else {
+        openElement.textLength += chunk.length;
+        openElement.trailingWhitespace = isWhitespaceOnly ? openElement.trailingWhitespace + chunk.length : trailingWhitespace;
+      }
+    }
+  }
+}
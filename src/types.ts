@@ -3,6 +3,11 @@ export interface ElementAttributes {
   [key: string]: string;
 }
 
+/** A piece of an element's content: a text run or a reference to a child element */
+export type ContentNode =
+  | { type: 'text'; text: string }
+  | { type: 'element'; id: number };
+
 /** Interface for element information collected in Phase 1 */
 export interface ElementInfo {
   id: number;
@@ -10,6 +15,7 @@ export interface ElementInfo {
   tagName: string;
   attributes: ElementAttributes;
   textChunks?: string[]; // Temporarily store text chunks (or managed by Handler's Map)
+  contentNodes: ContentNode[]; // Direct text runs and child element references in document order
   finalTextContent?: string; // Final text combined in onEndTag
   isVisibleBasedOnAttrs: boolean;
   role: string | null;
@@ -31,6 +37,38 @@ export interface Metadata {
   jsonLd?: any; // Parsed JSON-LD data
 }
 
+/** Result of HtmlRewriterReadability.process (the shape of Readability.js's parse() result, plus Markdown) */
+export interface ReadabilityResult {
+  title: string; // Article title
+  byline: string | null; // Author metadata
+  dir: string | null; // Content direction
+  lang: string | null; // Content language
+  content: string; // Cleaned article HTML
+  textContent: string; // Text content of the article, with all the HTML tags removed
+  length: number; // Length of the article text, in characters
+  excerpt: string | null; // Article description, or the first paragraph of the content
+  siteName: string | null; // Name of the site
+  publishedTime: string | null; // Published time
+  markdown: string; // Article converted to Markdown
+  text?: string; // Article converted to plain text (with includePlainText)
+  rendered?: Record<string, unknown>; // Output of each registered renderer, by name
+  metadata: Metadata; // Metadata collected in Phase 1
+}
+
+/** Input of a Renderer: the element tree collected in Phase 1 and the content selected in Phase 2 */
+export interface RenderContext {
+  elementStore: Map<number, ElementInfo>; // All elements by ID (walk children via contentNodes)
+  elementsToKeepIdsSet: Set<number>; // IDs of the elements that are part of the article
+  rootElementId: number; // Root of the article; only its kept children are content
+  baseURI: URL; // For resolving relative URLs
+  metadata: Metadata; // Metadata collected in Phase 1
+}
+
+/** Output renderer that converts the extracted article to a format (the built-in Markdown converter is one) */
+export interface Renderer<T = string> {
+  render(context: RenderContext): T;
+}
+
 /** Formatting options used in Phase 4 */
 export interface FormattingOptions {
   debug: boolean;
@@ -45,6 +83,39 @@ export interface Phase4HandlerOptions {
   formattingOptions?: FormattingOptions; // Include FormattingOptions
 }
 
+/** Markdown dialect options */
+export interface MarkdownOptions {
+  headingStyle?: 'atx' | 'setext'; // default 'atx' (# Heading); setext underlines H1/H2 with = and -
+  bulletListMarker?: '*' | '-' | '+'; // default '*'
+  emDelimiter?: '*' | '_'; // default '*'
+  strongDelimiter?: '**' | '__'; // default '**'
+  codeBlockStyle?: 'fenced' | 'indented'; // default 'fenced'
+  fence?: '```' | '~~~'; // default '```' (fenced code blocks only)
+  hardBreak?: 'spaces' | 'backslash'; // default 'spaces' (two trailing spaces), 'backslash' ends the line with \
+  linkStyle?: 'inlined' | 'referenced' | 'stripped'; // default 'inlined', 'referenced' lists the URLs (deduplicated) at the end of the document, 'stripped' keeps the link text only
+  subSupStyle?: 'html' | 'pandoc' | 'text'; // default 'html' (<sub>/<sup> passthrough), 'pandoc' uses ~sub~ and ^sup^, 'text' keeps the text only
+  kbdStyle?: 'html' | 'code' | 'text'; // default 'html' (<kbd> passthrough), 'code' uses inline code
+  markStyle?: 'html' | 'equals' | 'text'; // default 'html' (<mark> passthrough), 'equals' uses ==highlight==
+  underlineStyle?: 'html' | 'text'; // default 'text' (U and INS keep the text only), 'html' passes <u>/<ins> through
+  detailsStyle?: 'html' | 'text'; // default 'html' (<details> and <summary> passthrough around the Markdown body), 'text' writes the summary as a bold line followed by the body
+  imageTargetWidth?: number; // default 1024, width in CSS pixels used to pick the image URL from srcset and <picture> sources
+  removeTitleHeading?: boolean; // default false, removes a heading at the start of the content whose text duplicates metadata.title (more than 75% similar, like Readability.js)
+  baseHeadingLevel?: number; // 1-6, shifts all heading levels so that the shallowest heading gets this level (default: levels are kept)
+  rules?: MarkdownRule[]; // Custom conversion rules, checked in order before the built-in ones
+}
+
+/** Custom Markdown conversion rule (like Turndown's addRule) */
+export interface MarkdownRule {
+  filter: string | string[] | ((info: ElementInfo) => boolean); // Tag name(s), case-insensitive, or a predicate on the element (e.g. its attributes)
+  replacement: (content: string, info: ElementInfo, options: MarkdownOptions) => string; // content is the Markdown of the element's children
+}
+
+/** Plain text rendering options */
+export interface PlainTextOptions {
+  wrapWidth?: number; // wrap lines at this column, default 0 (no wrapping)
+  listItemPrefix?: string; // prefix of unordered list items, default '- ' (ordered lists use '1. ')
+}
+
 /** Options for HtmlRewriterReadability constructor */
 export interface ReadabilityOptions {
   debug?: boolean; // default false
@@ -55,6 +126,17 @@ export interface ReadabilityOptions {
   keepClasses?: boolean; // removes all classes except those provided in classesToPreserve
   allowedVideoRegex?: RegExp; // videos that match this regex will be preserved, see default value in constructor
   linkDensityModifier?: number; // Modifier for link density calculation, 0 means use default Readability.js like logic
+  markdownOptions?: MarkdownOptions; // Markdown dialect of the markdown result
+  includePlainText?: boolean; // default false, adds the plain text rendering as `text` to the result
+  plainTextOptions?: PlainTextOptions; // Options of the plain text rendering
+  renderers?: Record<string, Renderer<unknown>>; // Custom renderers, their outputs are added to `rendered` in the result
+}
+
+/** Options for isProbablyReaderable */
+export interface ReaderableOptions {
+  debug?: boolean; // default false
+  minContentLength?: number; // minimum text length of a paragraph to be counted, default 140
+  minScore?: number; // minimum cumulated score for the page to be readerable, default 20
 }
 
 /** Type for function that returns the next unique element ID */
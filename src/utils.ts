@@ -1,30 +1,157 @@
 import {
+  CODE_GUTTER_CLASSES,
+  CODE_LANGUAGE_CLASS_REGEX,
+  CODE_LINE_CLASSES,
+  CODE_LINE_ELEMENTS,
+  DEFAULT_FLAGS,
+  DEPRECATED_SIZE_ATTRIBUTE_ELEMS,
+  EMBED_ELEMENTS,
+  EMBED_SOURCE_ATTRIBUTES,
+  FLAG_STRIP_UNLIKELYS,
+  FLAG_WEIGHT_CLASSES,
+  JSON_LD_ARTICLE_TYPES_REGEX,
+  LAZY_SRCSET_ATTRIBUTES,
+  LAZY_SRC_ATTRIBUTES,
+  MATH_CONTAINER_CLASSES,
+  MATHJAX_OUTPUT_CLASS_REGEX,
+  MATHJAX_OUTPUT_ID_REGEX,
+  MATH_SCRIPT_TYPE_REGEX,
   NEGATIVE_REGEX,
   OK_MAYBE_ITS_A_CANDIDATE_REGEX,
-  POSITIVE_REGEX, UNLIKELY_CANDIDATES_REGEX, UNLIKELY_ROLES
+  POSITIVE_REGEX,
+  PRESENTATIONAL_ATTRIBUTES, UNLIKELY_CANDIDATES_REGEX, UNSAFE_EMBED_ATTRIBUTES, UNSAFE_ELEMENTS, UNLIKELY_ROLES, URL_ATTRIBUTES
 } from './constants';
-import type { ElementAttributes, ElementInfo, Metadata } from './types';
+import { C1_CHARACTER_REFERENCE_REPLACEMENTS, LEGACY_CHARACTER_REFERENCES, NAMED_CHARACTER_REFERENCES } from './html-entities';
+import type { ElementAttributes, ElementInfo, Metadata, Phase4HandlerOptions } from './types';
 
-/** Decode HTML entities */
-export function unescapeHtmlEntities(str: string | undefined | null): string | undefined {
+/** Decode a numeric character reference like the HTML parser (invalid code points become U+FFFD) */
+function decodeCodePoint(codePoint: number): string {
+  if (codePoint === 0 || codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) return '\uFFFD';
+  return String.fromCodePoint(C1_CHARACTER_REFERENCE_REPLACEMENTS[codePoint] ?? codePoint);
+}
+
+/**
+ * Decode HTML character references (named, decimal and hexadecimal) like the HTML parser does.
+ * HTMLRewriter passes text and attribute values as they appear in the source.
+ * @param str String to decode
+ * @param isAttributeValue In attribute values, legacy references without a semicolon followed by = or an alphanumeric character are kept
+ */
+export function unescapeHtmlEntities(str: string | undefined | null, isAttributeValue = false): string | undefined {
   if (!str) return undefined;
-  return str
-    .replace(/</g, '<')
-    .replace(/>/g, '>')
-    .replace(/"/g, '"')
-    .replace(/'/g, "'")
-    .replace(/&/g, '&')
+  if (!str.includes('&')) return str;
+  return str.replace(/&(?:#(\d+);?|#[xX]([0-9a-fA-F]+);?|([A-Za-z][A-Za-z0-9]*)(;?))/g,
+    (match: string, decimal: string | undefined, hex: string | undefined, name: string | undefined, semicolon: string | undefined, offset: number) => {
+      if (decimal !== undefined) return decodeCodePoint(Number.parseInt(decimal, 10));
+      if (hex !== undefined) return decodeCodePoint(Number.parseInt(hex, 16));
+      if (name === undefined) return match;
+      if (semicolon && Object.prototype.hasOwnProperty.call(NAMED_CHARACTER_REFERENCES, name)) return NAMED_CHARACTER_REFERENCES[name];
+
+      // Legacy references may omit the semicolon; the longest one at the start of the name is used (&copy2024 -> ©2024)
+      for (let length = Math.min(name.length, 6); length >= 2; length--) {
+        const legacyName = name.slice(0, length);
+        if (!LEGACY_CHARACTER_REFERENCES.has(legacyName)) continue;
+        const nextChar = length < name.length ? name.charAt(length) : semicolon || str.charAt(offset + match.length);
+        if (isAttributeValue && (nextChar === '=' || /[A-Za-z0-9]/.test(nextChar))) return match;
+        return `${NAMED_CHARACTER_REFERENCES[legacyName]}${name.slice(length)}${semicolon}`;
+      }
+      return match;
+    });
 }
 
 /** Escape special HTML characters */
 export function escapeHtml(unsafe: string | undefined | null): string {
   if (!unsafe) return '';
   return unsafe
-    .replace(/&/g, "&")
-    .replace(/</g, "<")
-    .replace(/>/g, ">")
-    .replace(/"/g, "\"")
-    .replace(/'/g, "'");
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Check if an element is skipped in Phase 1 (no element ID is assigned to it).
+ * Shared with Phase 4 so that both passes number elements identically.
+ * IFRAMEs are skipped unless their src matches allowedVideoRegex, SCRIPTs unless they hold math.
+ */
+export function isSkippedElement(tagName: string, element: Element, allowedVideoRegex?: RegExp): boolean {
+  if (tagName === "IFRAME") {
+    return !allowedVideoRegex || !EMBED_SOURCE_ATTRIBUTES.some(name => allowedVideoRegex.test(element.getAttribute(name) ?? ""));
+  }
+  // MathJax scripts hold the TeX source of formulas
+  if (tagName === "SCRIPT") return !MATH_SCRIPT_TYPE_REGEX.test(element.getAttribute("type") ?? "");
+  return tagName === "STYLE" || tagName === "NOSCRIPT" ||
+    (tagName === 'LINK' && element.getAttribute('rel') === 'stylesheet');
+}
+
+/**
+ * Check if an embed (IFRAME, EMBED, OBJECT) is an allowed video: its src or data attribute
+ * (or, for OBJECT, an EMBED's src or a movie/src PARAM's value inside it) matches allowedVideoRegex.
+ */
+export function isAllowedVideoEmbed(id: number, store: Map<number, ElementInfo>, allowedVideoRegex: RegExp | undefined): boolean {
+  const info = store.get(id);
+  if (!info || !allowedVideoRegex) return false;
+  const infos = info.tagName === 'OBJECT' ? [info, ...getDescendantIds(id, store).map(descendantId => store.get(descendantId))] : [info];
+  return infos.some(elementInfo => {
+    if (!elementInfo) return false;
+    const sources = EMBED_SOURCE_ATTRIBUTES.map(name => elementInfo.attributes[name]);
+    if (elementInfo.tagName === 'PARAM' && /^(movie|src)$/i.test(elementInfo.attributes.name ?? '')) sources.push(elementInfo.attributes.value);
+    return sources.some(value => value !== undefined && allowedVideoRegex.test(value));
+  });
+}
+
+/**
+ * Check if a kept element is written to the HTML output: unsafe elements (SCRIPT, META, BASE, ...) are dropped,
+ * except embeds that are allowed videos. Shared by HtmlSerializer and Phase4Handler so that both outputs match.
+ */
+export function isOutputElement(id: number, store: Map<number, ElementInfo>, allowedVideoRegex: RegExp | undefined): boolean {
+  const info = store.get(id);
+  if (!info) return false;
+  if (!UNSAFE_ELEMENTS.has(info.tagName)) return true;
+  return EMBED_ELEMENTS.has(info.tagName) && isAllowedVideoEmbed(id, store, allowedVideoRegex);
+}
+
+/** Link to the video of an embed, with a thumbnail for known providers and video posters */
+export interface VideoLink {
+  url: string; // Watch page for known providers, otherwise the embedded URL (may be relative)
+  thumbnailUrl?: string;
+  title: string;
+}
+
+/** Get the link to the video shown by an IFRAME, EMBED, OBJECT or VIDEO element (null if it has no source) */
+export function getVideoLink(id: number, store: Map<number, ElementInfo>): VideoLink | null {
+  const info = store.get(id);
+  if (!info) return null;
+  const childInfos = getChildrenIds(id, store).map(childId => store.get(childId));
+  let src = info.attributes.src || info.attributes['data-src'] || '';
+  if (info.tagName === 'OBJECT') {
+    src = info.attributes.data ||
+      childInfos.find(childInfo => childInfo?.tagName === 'PARAM' && /^(movie|src)$/i.test(childInfo.attributes.name ?? ''))?.attributes.value ||
+      childInfos.find(childInfo => childInfo?.tagName === 'EMBED')?.attributes.src || '';
+  } else if (info.tagName === 'VIDEO' && !src) {
+    src = childInfos.find(childInfo => childInfo?.tagName === 'SOURCE' && childInfo.attributes.src)?.attributes.src ?? '';
+  }
+  if (!src) return null;
+
+  const title = info.attributes.title?.trim() || info.attributes['aria-label']?.trim() || 'Video';
+  const youTubeId = src.match(/(?:youtube(?:-nocookie)?\.com\/(?:embed\/|v\/|watch\?(?:.*&)?v=)|youtu\.be\/)([\w-]{11})/i)?.[1];
+  if (youTubeId) {
+    return { url: `https://www.youtube.com/watch?v=${youTubeId}`, thumbnailUrl: `https://img.youtube.com/vi/${youTubeId}/hqdefault.jpg`, title };
+  }
+  const vimeoId = src.match(/vimeo\.com\/(?:video\/)?(\d+)/i)?.[1];
+  if (vimeoId) {
+    return { url: `https://vimeo.com/${vimeoId}`, title };
+  }
+  return { url: src, thumbnailUrl: info.tagName === 'VIDEO' ? info.attributes.poster || undefined : undefined, title };
+}
+
+/** Check if an element is visible based on its attributes (hidden, inline style, aria-hidden) */
+export function isElementVisible(element: Element): boolean {
+  const style = element.getAttribute("style");
+  return element.getAttribute("hidden") === null &&
+    style?.includes('display: none') !== true &&
+    style?.includes('visibility: hidden') !== true &&
+    element.getAttribute("aria-hidden") !== "true";
 }
 
 /** Extract metadata from META element */
@@ -47,6 +174,53 @@ export function extractMetadataFromElement(element: Element): Partial<Metadata>
   return extracted;
 }
 
+/** Check if a JSON-LD node has an article `@type` (which may be a single value or an array) */
+// biome-ignore lint/suspicious/noExplicitAny: JSON-LD nodes are untyped
+function isJsonLdArticle(node: any): boolean {
+  if (!node || typeof node !== 'object') return false;
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some((type: unknown) => typeof type === 'string' && JSON_LD_ARTICLE_TYPES_REGEX.test(type));
+}
+
+/** Find the first article node in parsed JSON-LD documents, looking into arrays and `@graph` */
+// biome-ignore lint/suspicious/noExplicitAny: JSON-LD nodes are untyped
+function findJsonLdArticle(data: any): any {
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const found = findJsonLdArticle(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (isJsonLdArticle(data)) return data;
+  if (data && typeof data === 'object' && Array.isArray(data['@graph'])) return findJsonLdArticle(data['@graph']);
+  return undefined;
+}
+
+/** Extract metadata from parsed JSON-LD documents */
+// biome-ignore lint/suspicious/noExplicitAny: JSON-LD nodes are untyped
+export function extractMetadataFromJsonLd(jsonLd: any): Partial<Metadata> {
+  const extracted: Partial<Metadata> = {};
+  const article = findJsonLdArticle(jsonLd);
+  if (!article) return {};
+
+  if (typeof article.headline === "string") extracted.title = article.headline.trim();
+  else if (typeof article.name === "string") extracted.title = article.name.trim();
+
+  const authors = Array.isArray(article.author) ? article.author : [article.author];
+  const authorNames = authors
+    .map((author: unknown) => typeof author === "string" ? author : (author as { name?: unknown } | undefined)?.name)
+    .filter((name: unknown): name is string => typeof name === "string" && name.trim() !== "")
+    .map((name: string) => name.trim());
+  if (authorNames.length > 0) extracted.byline = authorNames.join(", ");
+
+  if (typeof article.description === "string") extracted.excerpt = article.description.trim();
+  if (typeof article.publisher?.name === "string") extracted.siteName = article.publisher.name.trim();
+  if (typeof article.datePublished === "string") extracted.publishedTime = article.datePublished.trim();
+
+  return extracted;
+}
+
 // --- Helper functions for Phase 2 ---
 
 export function getElementInfo(id: number, store: Map<number, ElementInfo>): ElementInfo | undefined {
@@ -76,12 +250,11 @@ export function getAncestorIds(id: number, store: Map<number, ElementInfo>, maxD
 
 export function getChildrenIds(parentId: number, store: Map<number, ElementInfo>): number[] {
   const children: number[] = [];
-  for (const [id, info] of store.entries()) {
-    if (info.parentId === parentId) {
-      children.push(id);
+  for (const node of getElementInfo(parentId, store)?.contentNodes ?? []) {
+    if (node.type === 'element' && store.has(node.id)) {
+      children.push(node.id);
     }
   }
-  children.sort((a, b) => a - b);
   return children;
 }
 
@@ -100,26 +273,201 @@ export function getInnerText(id: number, store: Map<number, ElementInfo>, normal
   return normalizeSpaces ? text.replace(/\s{2,}/g, " ").trim() : text.trim();
 }
 
-export function getTotalVisibleInnerText(id: number, store: Map<number, ElementInfo>, normalizeSpaces = true): string {
+/** Get the visible text of an element and its descendants. When keepIds is given, descendants outside of it are skipped. */
+export function getTotalVisibleInnerText(id: number, store: Map<number, ElementInfo>, normalizeSpaces = true, keepIds?: Set<number>): string {
   let totalText = "";
   const info = getElementInfo(id, store);
+  if (!info) return totalText;
 
-  if (info?.isVisibleBasedOnAttrs) {
-    totalText = getInnerText(id, store, normalizeSpaces);
+  // Walk text runs and children in document order
+  for (const node of info.contentNodes) {
+    if (node.type === 'text') {
+      if (info.isVisibleBasedOnAttrs) totalText += node.text;
+    } else if (!keepIds || keepIds.has(node.id)) {
+      totalText += ` ${getTotalVisibleInnerText(node.id, store, normalizeSpaces, keepIds)} `;
+    }
   }
 
-  const children = getChildrenIds(id, store);
-  for (const childId of children) {
-    totalText += ` ${getTotalVisibleInnerText(childId, store, normalizeSpaces)}`;
+  return normalizeSpaces ? totalText.replace(/\s{2,}/g, " ").trim() : totalText.trim();
+}
+
+/**
+ * Get the raw text of an element and its descendants in document order (like DOM textContent).
+ * When keepIds is given, descendants outside of it are skipped.
+ */
+export function getTextContent(id: number, store: Map<number, ElementInfo>, keepIds?: Set<number>): string {
+  let text = "";
+  for (const node of getElementInfo(id, store)?.contentNodes ?? []) {
+    if (node.type === 'text') text += node.text;
+    else if (!keepIds || keepIds.has(node.id)) text += getTextContent(node.id, store, keepIds);
   }
+  return text;
+}
 
-  return normalizeSpaces ? totalText.replace(/\s{2,}/g, " ").trim() : totalText.trim();
+function hasClass(info: ElementInfo, classNames: Set<string>): boolean {
+  return (info.attributes.class ?? '').split(/\s+/).some(className => classNames.has(className.toLowerCase()));
+}
+
+/** Whether the element is (inside) a line-number gutter of a syntax highlighter */
+export function isCodeGutter(id: number, store: Map<number, ElementInfo>): boolean {
+  return [id, ...getAncestorIds(id, store, 3)].some(gutterId => {
+    const info = getElementInfo(gutterId, store);
+    return info !== undefined && hasClass(info, CODE_GUTTER_CLASSES);
+  });
+}
+
+/**
+ * Get the exact text of a code block. Line-number gutters are skipped, and the lines that
+ * syntax highlighters render as separate elements (without newlines between them) are joined with newlines.
+ */
+export function getCodeText(id: number, store: Map<number, ElementInfo>, keepIds?: Set<number>): string {
+  let text = "";
+  let isLineBreakPending = false; // A line element ended without a newline
+  for (const node of getElementInfo(id, store)?.contentNodes ?? []) {
+    let nodeText: string;
+    let isLine = false;
+    if (node.type === 'text') {
+      nodeText = node.text;
+    } else {
+      const info = getElementInfo(node.id, store);
+      if (!info || (keepIds && !keepIds.has(node.id)) || hasClass(info, CODE_GUTTER_CLASSES)) continue;
+      isLine = CODE_LINE_ELEMENTS.has(info.tagName) || hasClass(info, CODE_LINE_CLASSES);
+      nodeText = info.tagName === 'BR' ? '\n' : getCodeText(node.id, store, keepIds);
+    }
+    if (!nodeText) continue;
+    if (isLineBreakPending && !nodeText.startsWith('\n')) text += '\n';
+    text += nodeText;
+    isLineBreakPending = isLine && !nodeText.endsWith('\n');
+  }
+  return text;
+}
+
+/**
+ * Get the language of a code block from the data-lang/data-language attributes or the classes
+ * (language-*, lang-*, highlight-*, brush: *) of the CODE element, the PRE or the wrappers around it.
+ */
+export function getCodeLanguage(preId: number, store: Map<number, ElementInfo>): string {
+  const codeIds = getChildrenIds(preId, store).filter(childId => getElementInfo(childId, store)?.tagName === 'CODE');
+  const infos = [...codeIds, preId, ...getAncestorIds(preId, store, 2)]
+    .map(infoId => getElementInfo(infoId, store))
+    .filter((info): info is ElementInfo => info !== undefined);
+  const languages = [
+    ...infos.map(info => info.attributes['data-lang'] ?? info.attributes['data-language']),
+    ...infos.map(info => info.attributes.class?.match(CODE_LANGUAGE_CLASS_REGEX)?.[1]),
+  ];
+  const language = languages.find(candidate => candidate && /^[\w+#.-]+$/.test(candidate) && !/^(default|none)$/i.test(candidate));
+  return language?.toLowerCase() ?? '';
+}
+
+/** TeX source of a formula */
+export interface MathFormula {
+  tex: string;
+  isDisplay: boolean; // Display (block) formula rather than inline
+}
+
+/**
+ * Get the TeX source of a formula element: a MathJax script (type="math/tex"), a MathML MATH element
+ * (from its application/x-tex annotation or alttext attribute) or a KaTeX/MediaWiki container around one.
+ * Returns null for other elements and for formulas without TeX source.
+ */
+export function getMathFormula(id: number, store: Map<number, ElementInfo>): MathFormula | null {
+  const info = getElementInfo(id, store);
+  if (!info) return null;
+  if (info.tagName === 'SCRIPT') {
+    const type = info.attributes.type ?? '';
+    const tex = getTextContent(id, store).trim();
+    return MATH_SCRIPT_TYPE_REGEX.test(type) && tex ? { tex, isDisplay: /mode\s*=\s*display/i.test(type) } : null;
+  }
+
+  const mathId = info.tagName === 'MATH' ? id :
+    hasClass(info, MATH_CONTAINER_CLASSES) ? getDescendantIds(id, store).find(descendantId => getElementInfo(descendantId, store)?.tagName === 'MATH') : undefined;
+  const mathInfo = mathId !== undefined ? getElementInfo(mathId, store) : undefined;
+  if (mathId === undefined || !mathInfo) return null;
+  const annotationId = getDescendantIds(mathId, store).find(descendantId => {
+    const descendantInfo = getElementInfo(descendantId, store);
+    return descendantInfo?.tagName === 'ANNOTATION' && /^application\/x-tex$/i.test(descendantInfo.attributes.encoding ?? '');
+  });
+  const tex = (annotationId !== undefined ? getTextContent(annotationId, store) : mathInfo.attributes.alttext ?? '').trim();
+  if (!tex) return null;
+  // KaTeX wraps display formulas in .katex-display
+  const isDisplay = mathInfo.attributes.display === 'block' ||
+    [id, ...getAncestorIds(id, store, 2)].some(ancestorId => getElementInfo(ancestorId, store)?.attributes.class?.split(/\s+/).includes('katex-display'));
+  return { tex, isDisplay };
 }
 
-/** Calculate weight based on class/ID */
-export function getClassWeight(id: number, store: Map<number, ElementInfo>): number {
+/** Whether the element looks like output rendered by MathJax (by class, ID or an MJX-* tag) */
+function isMathJaxOutput(info: ElementInfo): boolean {
+  return info.tagName.startsWith('MJX-') || MATHJAX_OUTPUT_ID_REGEX.test(info.attributes.id ?? '') ||
+    (info.attributes.class ?? '').split(/\s+/).some(className => MATHJAX_OUTPUT_CLASS_REGEX.test(className));
+}
+
+/**
+ * Whether the element is the rendering of a MathJax v2 formula whose TeX script follows it (possibly after other
+ * rendered elements, like the preview before the frame). The script is converted instead, so its rendered glyphs are skipped.
+ */
+export function isRenderedMath(id: number, store: Map<number, ElementInfo>): boolean {
   const info = getElementInfo(id, store);
-  if (!info) return 0;
+  if (!info || info.parentId === null || !isMathJaxOutput(info)) return false;
+  const siblingIds = getChildrenIds(info.parentId, store);
+  for (const siblingId of siblingIds.slice(siblingIds.indexOf(id) + 1)) {
+    const siblingInfo = getElementInfo(siblingId, store);
+    if (!siblingInfo) return false;
+    if (siblingInfo.tagName === 'SCRIPT') return MATH_SCRIPT_TYPE_REGEX.test(siblingInfo.attributes.type ?? '');
+    if (!isMathJaxOutput(siblingInfo)) return false;
+  }
+  return false;
+}
+
+/**
+ * Similarity of textB to textA (same as Readability.js's _textSimilarity): the share of textB made of
+ * words that also appear in textA. 1 means every word of textB is in textA.
+ */
+export function textSimilarity(textA: string, textB: string): number {
+  const tokensA = textA.toLowerCase().split(/\W+/).filter(Boolean);
+  const tokensB = textB.toLowerCase().split(/\W+/).filter(Boolean);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const uniqueTokensB = tokensB.filter(token => !tokensA.includes(token));
+  return 1 - uniqueTokensB.join(' ').length / tokensB.join(' ').length;
+}
+
+/**
+ * Check if a table holds data rather than layout (same rules as Readability.js's _markDataTables).
+ * Starts from the Phase 1 attribute check and looks at the table structure.
+ */
+export function isDataTable(id: number, store: Map<number, ElementInfo>): boolean {
+  const info = getElementInfo(id, store);
+  if (!info || info.tagName !== 'TABLE' || !info.isDataTableLikely) return false;
+  if (info.attributes.summary) return true;
+
+  const descendants = getDescendantIds(id, store).map(descendantId => getElementInfo(descendantId, store));
+  const captionInfo = descendants.find(descendant => descendant?.tagName === 'CAPTION');
+  if (captionInfo && captionInfo.contentNodes.length > 0) return true;
+  if (descendants.some(descendant => ['COL', 'COLGROUP', 'TFOOT', 'THEAD', 'TH'].includes(descendant?.tagName ?? ''))) return true;
+  if (descendants.some(descendant => descendant?.tagName === 'TABLE')) return false;
+
+  let rows = 0;
+  let columns = 0;
+  for (const descendant of descendants) {
+    if (descendant?.tagName !== 'TR') continue;
+    rows++;
+    let rowColumns = 0;
+    for (const cellId of getChildrenIds(descendant.id, store)) {
+      const cellInfo = getElementInfo(cellId, store);
+      if (cellInfo?.tagName === 'TD' || cellInfo?.tagName === 'TH') {
+        rowColumns += Number.parseInt(cellInfo.attributes.colspan ?? '1', 10) || 1;
+      }
+    }
+    columns = Math.max(columns, rowColumns);
+  }
+  if (rows === 1 || columns === 1) return false;
+  if (rows >= 10 || columns > 4) return true;
+  return rows * columns > 10;
+}
+
+/** Calculate weight based on class/ID (0 when FLAG_WEIGHT_CLASSES is disabled) */
+export function getClassWeight(id: number, store: Map<number, ElementInfo>, flags = DEFAULT_FLAGS): number {
+  const info = getElementInfo(id, store);
+  if (!info || !(flags & FLAG_WEIGHT_CLASSES)) return 0;
   let weight = 0;
   const className = info.attributes.class ?? '';
   const elementIdAttr = info.attributes.id ?? '';
@@ -129,25 +477,25 @@ export function getClassWeight(id: number, store: Map<number, ElementInfo>): num
   return weight;
 }
 
-/** Calculate link density (considering only visible links) */
-export function getLinkDensity(id: number, store: Map<number, ElementInfo>): number {
-  const textLength = getTotalVisibleInnerText(id, store).length;
+/** Calculate link density (considering only visible links). When keepIds is given, descendants outside of it are skipped. */
+export function getLinkDensity(id: number, store: Map<number, ElementInfo>, keepIds?: Set<number>): number {
+  const textLength = getTotalVisibleInnerText(id, store, true, keepIds).length;
   if (textLength === 0) return 0;
   let linkLength = 0;
-  const descendantIds = [id, ...getDescendantIds(id, store)];
+  const descendantIds = [id, ...getDescendantIds(id, store).filter(descendantId => !keepIds || keepIds.has(descendantId))];
   for (const descendantId of descendantIds) {
     const descInfo = getElementInfo(descendantId, store);
     if (descInfo?.isVisibleBasedOnAttrs && descInfo.tagName === 'A') {
       const href = descInfo.attributes.href;
       const coefficient = href?.startsWith('#') ? 0.3 : 1;
-      linkLength += getTotalVisibleInnerText(descendantId, store).length * coefficient;
+      linkLength += getTotalVisibleInnerText(descendantId, store, true, keepIds).length * coefficient;
     }
   }
   return linkLength / textLength;
 }
 
 /** Initialize node score */
-export function initializeNodeScore(id: number, store: Map<number, ElementInfo>): void {
+export function initializeNodeScore(id: number, store: Map<number, ElementInfo>, flags = DEFAULT_FLAGS): void {
   const info = getElementInfo(id, store);
   if (!info || info.readability) return;
   info.readability = { contentScore: 0 };
@@ -157,13 +505,14 @@ export function initializeNodeScore(id: number, store: Map<number, ElementInfo>)
     case "ADDRESS": case "OL": case "UL": case "DL": case "DD": case "DT": case "LI": case "FORM": info.readability.contentScore -= 3; break;
     case "H1": case "H2": case "H3": case "H4": case "H5": case "H6": case "TH": info.readability.contentScore -= 5; break;
   }
-  info.readability.contentScore += getClassWeight(id, store);
+  info.readability.contentScore += getClassWeight(id, store, flags);
 }
 
-/** Check if it's an unlikely candidate */
-export function isUnlikelyCandidate(id: number, store: Map<number, ElementInfo>): boolean {
+/** Check if it's an unlikely candidate (never when FLAG_STRIP_UNLIKELYS is disabled) */
+export function isUnlikelyCandidate(id: number, store: Map<number, ElementInfo>, flags = DEFAULT_FLAGS): boolean {
   const info = getElementInfo(id, store);
   if (!info) return true;
+  if (!(flags & FLAG_STRIP_UNLIKELYS)) return false;
   const className = info.attributes.class ?? '';
   const elementIdAttr = info.attributes.id ?? '';
   const matchString = `${className} ${elementIdAttr}`;
@@ -177,3 +526,178 @@ export function isUnlikelyCandidate(id: number, store: Map<number, ElementInfo>)
   }
   return false;
 }
+
+// --- Helper functions for Phase 4 ---
+
+/** Resolve a (possibly relative) URI against the baseURI, leaving fragment-only and data URIs untouched */
+export function toAbsoluteURI(uri: string, baseURI: URL): string {
+  if (!uri || uri.startsWith('#') || uri.startsWith('data:')) return uri;
+  try {
+    return new URL(uri, baseURI).href;
+  } catch (e) {
+    console.warn(`Failed to resolve URI: ${uri}`);
+    return uri;
+  }
+}
+
+/** Check if a URI would execute script when followed */
+export function isJavaScriptURI(uri: string | undefined): boolean {
+  // URL parsing drops tabs and newlines anywhere, and control characters and spaces before the scheme
+  const normalizedURI = (uri ?? '').replace(/[\t\n\r]/g, '').replace(/^[\u0000-\u0020]+/, '');
+  return /^(?:javascript|vbscript):/i.test(normalizedURI);
+}
+
+/** Resolve every candidate URL of a srcset attribute against the baseURI */
+export function toAbsoluteSrcset(srcset: string, baseURI: URL): string {
+  return srcset.replace(/(\S+)(\s+[\d.]+[xw])?(\s*(?:,|$))/g, (_, url: string, descriptor = '', separator: string) =>
+    `${toAbsoluteURI(url, baseURI)}${descriptor}${separator}`);
+}
+
+/** An image candidate of a srcset attribute */
+interface SrcsetCandidate {
+  url: string;
+  width?: number; // Width descriptor (400w)
+  density?: number; // Pixel density descriptor (2x)
+}
+
+/** Parse a srcset attribute into its candidates */
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+  const candidates: SrcsetCandidate[] = [];
+  for (const match of srcset.matchAll(/\s*(\S+)(?:\s+([\d.]+)([wx]))?\s*(?:,|$)/g)) {
+    const url = match[1].replace(/,+$/, ''); // A URL directly followed by the separator
+    if (!url) continue;
+    const value = Number.parseFloat(match[2]);
+    candidates.push({
+      url,
+      width: match[3] === 'w' && value > 0 ? value : undefined,
+      density: match[3] === 'x' && value > 0 ? value : undefined,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Check if an image URI is a placeholder shown until a lazy-loading script sets the real image:
+ * a data URI too small to be a real image (like Readability.js, under 133 characters) or a blank/spacer file.
+ */
+export function isPlaceholderImageURI(uri: string): boolean {
+  const dataURI = uri.trim().match(/^data:[^,]*,(.*)$/is);
+  if (dataURI) return dataURI[1].length < 133;
+  return /(?:^|\/)(?:blank|spacer|pixel|placeholder|transparent|1x1)\.(?:gif|png|svg)(?:[?#]|$)/i.test(uri.trim());
+}
+
+/**
+ * Replace placeholder image sources with the URLs kept by lazy-loading scripts (data-src, data-srcset, ...),
+ * like Readability.js's _fixLazyImages. Placeholder sources without a replacement are removed.
+ * @param attributes Attributes of an IMG or SOURCE element, updated in place
+ */
+export function fixLazyImageAttributes(attributes: ElementAttributes): void {
+  const isLazy = /lazy/i.test(attributes.class ?? '');
+  const src = attributes.src;
+  const lazySrc = LAZY_SRC_ATTRIBUTES.map(name => attributes[name]).find(value => value && !isPlaceholderImageURI(value));
+  if (lazySrc && (!src || isLazy || /^\s*data:/i.test(src) || isPlaceholderImageURI(src))) {
+    attributes.src = lazySrc;
+  } else if (src && isPlaceholderImageURI(src)) {
+    delete attributes.src;
+  }
+
+  const lazySrcset = LAZY_SRCSET_ATTRIBUTES.map(name => attributes[name]).find(value => value);
+  if (lazySrcset && (!attributes.srcset || isLazy || parseSrcset(attributes.srcset).every(candidate => isPlaceholderImageURI(candidate.url)))) {
+    attributes.srcset = lazySrcset;
+  }
+
+  // Other attributes that look like image URLs
+  if (!attributes.src && !attributes.srcset) {
+    for (const [name, value] of Object.entries(attributes)) {
+      if (name === 'alt' || name === 'title') continue;
+      if (/\.(jpe?g|png|webp|gif|avif)\s+\d/i.test(value)) {
+        attributes.srcset = value;
+        break;
+      }
+      if (/^\s*\S+\.(jpe?g|png|webp|gif|avif)\S*\s*$/i.test(value)) {
+        attributes.src = value;
+        break;
+      }
+    }
+  }
+}
+
+/** Check if a media query list (min-width/max-width features in px or em) matches a viewport width */
+function matchesMediaQuery(media: string, viewportWidth: number): boolean {
+  return media.split(',').some(query => {
+    for (const match of query.matchAll(/\(\s*(min|max)-width\s*:\s*([\d.]+)(px|em|rem)?\s*\)/gi)) {
+      const width = Number.parseFloat(match[2]) * (match[3] && match[3].toLowerCase() !== 'px' ? 16 : 1);
+      if (match[1].toLowerCase() === 'min' ? viewportWidth < width : viewportWidth > width) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Pick the image URL to use for an IMG element displayed at the target width:
+ * the first matching SOURCE of a parent PICTURE, otherwise the IMG's srcset and src.
+ * The smallest candidate at least as wide as the target is used, or the widest one if none is.
+ * @returns URL as written in the source (relative URLs are not resolved), or '' if the image has no usable source
+ */
+export function getBestImageSource(id: number, elementStore: Map<number, ElementInfo>, targetWidth: number): string {
+  const info = elementStore.get(id);
+  if (!info) return '';
+  let srcset = info.attributes.srcset ?? '';
+  let src = info.attributes.src ?? '';
+
+  const parentInfo = info.parentId !== null ? elementStore.get(info.parentId) : undefined;
+  if (parentInfo?.tagName === 'PICTURE') {
+    for (const sourceId of getChildrenIds(parentInfo.id, elementStore)) {
+      const sourceAttributes = elementStore.get(sourceId)?.attributes;
+      if (elementStore.get(sourceId)?.tagName !== 'SOURCE' || !sourceAttributes?.srcset) continue;
+      if (sourceAttributes.media && !matchesMediaQuery(sourceAttributes.media, targetWidth)) continue;
+      srcset = sourceAttributes.srcset;
+      src = '';
+      break;
+    }
+  }
+
+  // Density descriptors are relative to the displayed width
+  const displayWidth = Number.parseInt(info.attributes.width ?? '', 10) || targetWidth;
+  const srcsetCandidates = parseSrcset(srcset);
+  const candidates = srcsetCandidates
+    .map(candidate => ({ url: candidate.url, width: candidate.width ?? displayWidth * (candidate.density ?? 1) }));
+  // Like the browser, src is the 1x candidate unless the srcset uses width descriptors or has its own 1x candidate
+  if (src && !srcsetCandidates.some(candidate => candidate.width !== undefined || (candidate.density ?? 1) === 1)) {
+    candidates.push({ url: src, width: displayWidth });
+  }
+  const usableCandidates = candidates.filter(candidate => !isPlaceholderImageURI(candidate.url));
+  if (usableCandidates.length === 0) return '';
+
+  usableCandidates.sort((a, b) => a.width - b.width);
+  return (usableCandidates.find(candidate => candidate.width >= targetWidth) ?? usableCandidates[usableCandidates.length - 1]).url;
+}
+
+/**
+ * Build the attributes written to the cleaned HTML output:
+ * drops event handlers and presentational attributes, filters classes and absolutizes URLs.
+ */
+export function sanitizeAttributes(tagName: string, attributes: ElementAttributes, options: Phase4HandlerOptions): ElementAttributes {
+  const sanitized: ElementAttributes = {};
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name.startsWith('on') || PRESENTATIONAL_ATTRIBUTES.has(name)) continue;
+    // A srcdoc frame runs its document with the origin of the embedding page
+    if (name === 'srcdoc' || (EMBED_ELEMENTS.has(tagName) && UNSAFE_EMBED_ATTRIBUTES.has(name))) continue;
+    if ((name === 'width' || name === 'height') && DEPRECATED_SIZE_ATTRIBUTE_ELEMS.has(tagName)) continue;
+
+    if (name === 'class') {
+      const classes = options.keepClasses
+        ? value.trim()
+        : value.split(/\s+/).filter(className => options.classesToPreserve?.includes(className)).join(' ');
+      if (classes) sanitized.class = classes;
+    } else if (URL_ATTRIBUTES.has(name)) {
+      if (isJavaScriptURI(value)) continue;
+      sanitized[name] = toAbsoluteURI(value, options.baseURI);
+    } else if (name === 'srcset') {
+      sanitized[name] = toAbsoluteSrcset(value, options.baseURI);
+    } else {
+      sanitized[name] = value;
+    }
+  }
+  return sanitized;
+}
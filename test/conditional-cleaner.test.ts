@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { cleanConditionally } from '../src/conditional-cleaner';
+import { DEFAULT_FLAGS, FLAG_CLEAN_CONDITIONALLY } from '../src/constants';
+import { buildStore, h } from './helpers';
+
+const options = { debug: false, flags: DEFAULT_FLAGS };
+const sentence = 'This paragraph of the article is written straight into a div element and has no markup at all';
+
+describe('cleanConditionally', () => {
+  it('keeps DIVs that hold their text directly, like paragraphs', () => {
+    const { elementStore, elementsToKeepIdsSet } = buildStore(h('article', {},
+      h('div', {}, sentence),
+      h('div', {}, `${sentence}, again`),
+    ));
+    const keptIds = cleanConditionally(elementStore, [...elementsToKeepIdsSet], options);
+    expect(keptIds).toEqual([1, 2, 3]);
+  });
+
+  it('removes link-heavy DIVs', () => {
+    const { elementStore, elementsToKeepIdsSet } = buildStore(h('article', {},
+      h('p', {}, sentence),
+      h('div', {}, h('p', {}, h('a', { href: '/a' }, 'First related link')), h('p', {}, h('a', { href: '/b' }, 'Second related link'))),
+    ));
+    const keptIds = cleanConditionally(elementStore, [...elementsToKeepIdsSet], options);
+    expect(keptIds).toEqual([1, 2]);
+  });
+
+  it('keeps everything when FLAG_CLEAN_CONDITIONALLY is disabled', () => {
+    const { elementStore, elementsToKeepIdsSet } = buildStore(h('article', {},
+      h('p', {}, sentence),
+      h('div', {}, h('p', {}, h('a', { href: '/a' }, 'First related link')), h('p', {}, h('a', { href: '/b' }, 'Second related link'))),
+    ));
+    const keptIds = cleanConditionally(elementStore, [...elementsToKeepIdsSet], { debug: false, flags: DEFAULT_FLAGS & ~FLAG_CLEAN_CONDITIONALLY });
+    expect(keptIds).toEqual([...elementsToKeepIdsSet]);
+  });
+
+  it('ignores descendants that were already removed', () => {
+    const { elementStore } = buildStore(h('article', {},
+      h('div', {},
+        h('p', {}, sentence),
+        h('div', { class: 'related' }, h('a', { href: '/a' }, 'A very long list of related links that is not part of the article at all')),
+      ),
+    ));
+    // The related links (4 and 5) were removed before
+    const keptIds = cleanConditionally(elementStore, [1, 2, 3], options);
+    expect(keptIds).toEqual([1, 2, 3]);
+  });
+});
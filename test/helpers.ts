@@ -0,0 +1,112 @@
+// helpers.ts
+
+import type { ElementAttributes, ElementInfo, Metadata, RenderContext } from '../src/types';
+
+/** Element of a test tree: tag name, attributes and children (text or elements) */
+export interface TestElement {
+  tagName: string;
+  attributes: ElementAttributes;
+  children: (TestElement | string)[];
+}
+
+/** Create a test element */
+export function h(tagName: string, attributes: ElementAttributes = {}, ...children: (TestElement | string)[]): TestElement {
+  return { tagName: tagName.toUpperCase(), attributes, children };
+}
+
+/**
+ * Build an element store like Phase 1 does, with the elements numbered in document order from 1.
+ * All elements are kept unless keepIds is given.
+ */
+export function buildStore(root: TestElement) {
+  const elementStore = new Map<number, ElementInfo>();
+  let nextId = 0;
+  const add = (element: TestElement, parentId: number | null): number => {
+    const id = ++nextId;
+    const info: ElementInfo = {
+      id,
+      parentId,
+      tagName: element.tagName,
+      attributes: element.attributes,
+      contentNodes: [],
+      isVisibleBasedOnAttrs: true,
+      role: element.attributes.role ?? null,
+      isDataTableLikely: element.tagName === 'TABLE',
+      isCodeBlock: element.tagName === 'PRE',
+    };
+    elementStore.set(id, info);
+    let ownText = '';
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        info.contentNodes.push({ type: 'text', text: child });
+        ownText += child;
+      } else {
+        info.contentNodes.push({ type: 'element', id: add(child, id) });
+      }
+    }
+    info.finalTextContent = ownText;
+    return id;
+  };
+  const rootElementId = add(root, null);
+  return { elementStore, rootElementId, elementsToKeepIdsSet: new Set(elementStore.keys()) };
+}
+
+/** Render context for a renderer test: the content is wrapped in an article root, relative URLs resolve against example.com */
+export function renderContext(content: TestElement, metadata: Metadata = {}): RenderContext {
+  const { elementStore, rootElementId, elementsToKeepIdsSet } = buildStore(h('article', {}, content));
+  return { elementStore, elementsToKeepIdsSet, rootElementId, baseURI: new URL('https://example.com/a/b.html'), metadata };
+}
+
+/** Stand-in for an HTMLRewriter Text chunk (the whole text node in one chunk unless lastInTextNode is false) */
+export function textChunk(text: string, lastInTextNode = true): Text {
+  return { text, lastInTextNode } as unknown as Text;
+}
+
+/** Stand-in for an HTMLRewriter Element that records what a handler did to it */
+export class FakeElement {
+  tagName: string;
+  removed = false;
+  unwrapped = false;
+  endTagHandlers: (() => void)[] = [];
+  private attributeMap: Map<string, string>;
+
+  constructor(tagName: string, attributes: Record<string, string> = {}, private hasEndTag = true) {
+    this.tagName = tagName.toLowerCase();
+    this.attributeMap = new Map(Object.entries(attributes));
+  }
+
+  get attributes(): IterableIterator<[string, string]> {
+    return this.attributeMap.entries();
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributeMap.get(name) ?? null;
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attributeMap.set(name, value);
+  }
+
+  removeAttribute(name: string) {
+    this.attributeMap.delete(name);
+  }
+
+  remove() {
+    this.removed = true;
+  }
+
+  removeAndKeepContent() {
+    this.unwrapped = true;
+  }
+
+  /** Like lol-html, elements without an end tag (void or self-closing) cannot register end tag handlers */
+  onEndTag(handler: () => void) {
+    if (!this.hasEndTag) throw new TypeError('No end tag.');
+    this.endTagHandlers.push(handler);
+  }
+
+  /** Run the registered end tag handlers */
+  end() {
+    for (const handler of this.endTagHandlers) handler();
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { HtmlSerializer } from '../src/html-serializer';
+import { buildStore, h, type TestElement } from './helpers';
+
+const allowedVideoRegex = /(www\.youtube\.com|player\.vimeo\.com)/i;
+
+function serialize(content: TestElement): string {
+  const { elementStore, rootElementId, elementsToKeepIdsSet } = buildStore(h('div', {}, content));
+  const serializer = new HtmlSerializer(elementStore, elementsToKeepIdsSet, {
+    baseURI: new URL('https://example.com/a/b.html'),
+    formattingOptions: { debug: false, allowedVideoRegex },
+  });
+  return serializer.serialize(rootElementId);
+}
+
+describe('HtmlSerializer embeds', () => {
+  it('keeps an allowed video iframe', () => {
+    expect(serialize(h('iframe', { src: 'https://www.youtube.com/embed/abcdefghijk', title: 'Clip' })))
+      .toBe('<iframe src="https://www.youtube.com/embed/abcdefghijk" title="Clip"></iframe>');
+  });
+
+  it('matches the allow regex against the source URL only', () => {
+    expect(serialize(h('iframe', { srcdoc: '<script>alert(document.cookie)</script>', title: 'www.youtube.com clip' }))).toBe('');
+    expect(serialize(h('embed', { src: 'https://evil.example/x.swf', title: 'www.youtube.com' }))).toBe('');
+  });
+
+  it('strips srcdoc and sandbox overrides from kept embeds', () => {
+    const html = serialize(h('iframe', {
+      src: 'https://player.vimeo.com/video/1',
+      srcdoc: '<script>alert(document.cookie)</script>',
+      sandbox: 'allow-scripts allow-same-origin',
+      allow: 'camera',
+    }));
+    expect(html).toBe('<iframe src="https://player.vimeo.com/video/1"></iframe>');
+  });
+
+  it('keeps an object whose movie param is an allowed video', () => {
+    const html = serialize(h('object', {}, h('param', { name: 'movie', value: 'https://www.youtube.com/v/abcdefghijk' })));
+    expect(html).toBe('<object><param name="movie" value="https://www.youtube.com/v/abcdefghijk"></object>');
+  });
+});
+
+describe('HtmlSerializer links', () => {
+  it('replaces javascript: links split by newlines and tabs with their content', () => {
+    expect(serialize(h('a', { href: 'java\nscript:alert(3)' }, 'click'))).toBe('click');
+    expect(serialize(h('a', { href: 'java\tscript:alert(3)' }, 'click'))).toBe('click');
+  });
+
+  it('removes javascript: URLs from SVG links', () => {
+    expect(serialize(h('a', { 'xlink:href': 'javascript:alert(5)' }, 'click'))).toBe('<a>click</a>');
+  });
+
+  it('drops SVG animations that would set a javascript: URL', () => {
+    const link = (animation: TestElement) => serialize(h('svg', {}, h('a', {}, animation, h('text', {}, 'click'))));
+    expect(link(h('animate', { attributename: 'href', values: 'javascript:alert(1)' })))
+      .toBe('<svg><a><text>click</text></a></svg>');
+    expect(link(h('set', { attributename: 'href', to: 'javascript:alert(2)' })))
+      .toBe('<svg><a><text>click</text></a></svg>');
+    expect(link(h('animate', { attributename: 'href', from: 'javascript:alert(3)', to: '/x' })))
+      .toBe('<svg><a><text>click</text></a></svg>');
+    expect(link(h('animatetransform', { attributename: 'href', by: 'javascript:alert(4)' })))
+      .toBe('<svg><a><text>click</text></a></svg>');
+  });
+});
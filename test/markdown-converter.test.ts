@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownConverter } from '../src/markdown-converter';
+import type { MarkdownConverterOptions } from '../src/markdown-converter';
+import type { Metadata } from '../src/types';
+import { h, renderContext, type TestElement } from './helpers';
+
+function toMarkdown(content: TestElement, options: MarkdownConverterOptions = {}, metadata: Metadata = {}): string {
+  return new MarkdownConverter(options).render(renderContext(content, metadata));
+}
+
+describe('MarkdownConverter block separation', () => {
+  it('separates a block from the inline text after it', () => {
+    expect(toMarkdown(h('div', {}, h('div', {}, 'Section title'), 'Body text.'))).toBe('Section title\n\nBody text.');
+  });
+
+  it('separates a paragraph from the inline text around it', () => {
+    expect(toMarkdown(h('div', {}, 'Before', h('p', {}, 'Paragraph'), 'after.'))).toBe('Before\n\nParagraph\n\nafter.');
+  });
+
+  it('does not merge paragraphs in a blockquote', () => {
+    expect(toMarkdown(h('blockquote', {}, 'Quote text', h('p', {}, 'Paragraph')))).toBe('> Quote text\n>\n> Paragraph');
+  });
+
+  it('keeps images inline in links and text', () => {
+    expect(toMarkdown(h('p', {}, h('a', { href: '/x' }, h('img', { src: '/i.png', alt: 'icon' }), 'click'))))
+      .toBe('[![icon](https://example.com/i.png)click](https://example.com/x)');
+    expect(toMarkdown(h('p', {}, 'An ', h('img', { src: '/e.png', alt: 'emoji' }), ' image.')))
+      .toBe('An ![emoji](https://example.com/e.png) image.');
+  });
+
+  it('keeps lists tight', () => {
+    expect(toMarkdown(h('ul', {}, h('li', {}, 'One', h('ul', {}, h('li', {}, 'Nested'))), h('li', {}, 'Two'))))
+      .toBe('* One\n    * Nested\n* Two');
+  });
+});
+
+describe('MarkdownConverter indented code blocks', () => {
+  const options: MarkdownConverterOptions = { codeBlockStyle: 'indented' };
+
+  it('puts a blank line before indented code after inline text', () => {
+    expect(toMarkdown(h('ul', {}, h('li', {}, 'Item with code', h('pre', {}, 'x = 1'))), options))
+      .toBe('* Item with code\n\n      x = 1');
+    expect(toMarkdown(h('div', {}, 'Text', h('pre', {}, 'x = 1')), options)).toBe('Text\n\n    x = 1');
+  });
+
+  it('keeps the code indentation when a list item or the content starts with code', () => {
+    expect(toMarkdown(h('ul', {}, h('li', {}, h('pre', {}, 'x = 1\n  y'))), options)).toBe('*     x = 1\n        y');
+    expect(toMarkdown(h('pre', {}, 'x = 1'), options)).toBe('    x = 1');
+  });
+});
+
+describe('MarkdownConverter escaping', () => {
+  it('escapes emphasis delimiters unless they are surrounded by whitespace or inside a word', () => {
+    expect(toMarkdown(h('p', {}, '*not bold* and 2 * 3 and _under_ but snake_case and ~~gone~~')))
+      .toBe('\\*not bold\\* and 2 * 3 and \\_under\\_ but snake_case and \\~\\~gone\\~\\~');
+  });
+
+  it('escapes block markers at the start of a line only', () => {
+    expect(toMarkdown(h('p', {}, '# Not a heading #1'))).toBe('\\# Not a heading #1');
+    expect(toMarkdown(h('p', {}, '1. Not a list, 2. still not'))).toBe('1\\. Not a list, 2. still not');
+    expect(toMarkdown(h('p', {}, '- not an item - really'))).toBe('\\- not an item - really');
+    expect(toMarkdown(h('p', {}, '> not a quote > really'))).toBe('\\> not a quote > really');
+    expect(toMarkdown(h('p', {}, '+ not an item'))).toBe('\\+ not an item');
+  });
+
+  it('escapes code spans, link brackets, HTML tags and character references', () => {
+    expect(toMarkdown(h('p', {}, 'Use `x` in [brackets] with <b>tags</b> & &amp; 1 < 2')))
+      .toBe('Use \\`x\\` in \\[brackets] with \\<b>tags\\</b> & \\&amp; 1 < 2');
+  });
+
+  it('escapes closing brackets in link text and image alt text', () => {
+    expect(toMarkdown(h('p', {}, h('a', { href: '/x' }, 'a [b] c'))))
+      .toBe('[a \\[b\\] c](https://example.com/x)');
+    expect(toMarkdown(h('p', {}, h('img', { src: '/i.png', alt: 'x] *y*' }))))
+      .toBe('![x\\] \\*y\\*](https://example.com/i.png)');
+  });
+
+  it('escapes backslashes only before punctuation', () => {
+    expect(toMarkdown(h('p', {}, 'C:\\dir\\*.txt and a\\b'))).toBe('C:\\dir\\\\\\*.txt and a\\b');
+  });
+
+  it('does not escape text in code', () => {
+    expect(toMarkdown(h('p', {}, h('code', {}, '*a* [b] <c>')))).toBe('`*a* [b] <c>`');
+    expect(toMarkdown(h('pre', {}, '# *a* [b]'))).toBe('```\n# *a* [b]\n```');
+  });
+});
+
+describe('MarkdownConverter math', () => {
+  it('escapes dollar signs in text but not in formulas or code', () => {
+    expect(toMarkdown(h('p', {}, 'It costs $5 or $10, see ', h('math', { alttext: 'x^2 + \\$' }), '.')))
+      .toBe('It costs \\$5 or \\$10, see $x^2 + \\$$.');
+    expect(toMarkdown(h('p', {}, 'Run ', h('code', {}, 'echo $HOME')))).toBe('Run `echo $HOME`');
+  });
+
+  // MathJax v2 output: a preview, the rendered frame (HTML-CSS with assistive MathML) and the TeX script
+  const renderedInline = (n: number, tex: string) => [
+    h('span', { class: 'MathJax_Preview', style: 'color: inherit;' }),
+    h('span', { class: 'MathJax', id: `MathJax-Element-${n}-Frame`, tabindex: '0', role: 'presentation' },
+      h('nobr', {}, h('span', { class: 'math', id: `MathJax-Span-${n}` }, h('span', { class: 'mi' }, 'x'), h('span', { class: 'mn' }, '2'))),
+      h('span', { class: 'MJX_Assistive_MathML', role: 'presentation' }, h('math', {}, h('msup', {}, h('mi', {}, 'x'), h('mn', {}, '2'))))),
+    h('script', { type: 'math/tex', id: `MathJax-Element-${n}` }, tex),
+  ];
+
+  it('skips the output MathJax v2 renders next to the TeX script', () => {
+    expect(toMarkdown(h('p', {}, 'Square ', ...renderedInline(1, 'x^2'), ' here.'))).toBe('Square $x^2$ here.');
+    expect(toMarkdown(h('p', {}, 'A formula:',
+      h('span', { class: 'MathJax_Preview' }),
+      h('div', { class: 'MathJax_Display' }, h('span', { class: 'mjx-chtml MathJax_CHTML', id: 'MathJax-Element-2-Frame' }, h('span', { class: 'mjx-math' }, 'x2'))),
+      h('script', { type: 'math/tex; mode=display', id: 'MathJax-Element-2' }, 'x^2'),
+      'and more.')))
+      .toBe('A formula:\n\n$$\nx^2\n$$\n\nand more.');
+  });
+
+  it('keeps MathJax-like elements without a TeX script', () => {
+    expect(toMarkdown(h('p', {}, h('span', { class: 'MathJax' }, 'x2'), ' text'))).toBe('x2 text');
+  });
+
+  it('does not leave a trailing space before a display formula', () => {
+    expect(toMarkdown(h('p', {}, 'See ', h('script', { type: 'math/tex; mode=display' }, 'y'), ' below.'))).toBe('See\n\n$$\ny\n$$\n\nbelow.');
+  });
+});
+
+describe('MarkdownConverter blockquotes', () => {
+  it('keeps blank and whitespace-only lines of code in a blockquote', () => {
+    expect(toMarkdown(h('blockquote', {}, h('pre', {}, h('code', {}, 'a\n\n\nb\n  \nc')))))
+      .toBe('> ```\n> a\n>\n>\n> b\n>   \n> c\n> ```');
+  });
+
+  it('collapses blank lines between blocks in a blockquote', () => {
+    expect(toMarkdown(h('blockquote', {}, h('p', {}, 'One'), '\n  \n', h('p', {}, 'Two')))).toBe('> One\n>\n> Two');
+  });
+});
+
+describe('MarkdownConverter code blocks', () => {
+  it('keeps blank and whitespace-only lines of indented code', () => {
+    const options: MarkdownConverterOptions = { codeBlockStyle: 'indented' };
+    expect(toMarkdown(h('pre', {}, 'a\n\n\n\nb\n   \nc'), options)).toBe('    a\n    \n    \n    \n    b\n       \n    c');
+    expect(toMarkdown(h('div', {}, 'Text', h('pre', {}, 'a\n\n\nb')), options)).toBe('Text\n\n    a\n    \n    \n    b');
+    expect(toMarkdown(h('blockquote', {}, h('pre', {}, 'a\n\n\nb')), options)).toBe('>     a\n>     \n>     \n>     b');
+  });
+
+  it('keeps blank and whitespace-only lines of fenced code', () => {
+    expect(toMarkdown(h('pre', {}, 'a\n\n\nb\n  \nc'))).toBe('```\na\n\n\nb\n  \nc\n```');
+  });
+
+  it('detects the language from classes and data attributes', () => {
+    expect(toMarkdown(h('pre', {}, h('code', { class: 'language-python' }, 'x')))).toBe('```python\nx\n```');
+    expect(toMarkdown(h('pre', { class: 'lang-JS' }, 'x'))).toBe('```js\nx\n```');
+    expect(toMarkdown(h('div', { class: 'highlight-source-ruby' }, h('pre', {}, 'x')))).toBe('```ruby\nx\n```');
+    expect(toMarkdown(h('pre', { class: 'brush: php; gutter: false' }, 'x'))).toBe('```php\nx\n```');
+    expect(toMarkdown(h('pre', { 'data-lang': 'Go' }, 'x'))).toBe('```go\nx\n```');
+  });
+
+  it('ignores placeholder and invalid languages', () => {
+    expect(toMarkdown(h('pre', { class: 'language-none' }, 'x'))).toBe('```\nx\n```');
+    expect(toMarkdown(h('pre', { 'data-lang': 'c plus' }, 'x'))).toBe('```\nx\n```');
+  });
+});
+
+describe('MarkdownConverter tables', () => {
+  const row = (cellTag: string, ...cells: (string | TestElement)[]) =>
+    h('tr', {}, ...cells.map(cell => typeof cell === 'string' ? h(cellTag, {}, cell) : cell));
+
+  it('uses a first row of TH cells as the header', () => {
+    expect(toMarkdown(h('table', {}, h('tbody', {}, row('th', 'Name', 'Age'), row('td', 'Ann', '31'), row('td', 'Bob', '27')))))
+      .toBe('| Name | Age |\n| --- | --- |\n| Ann | 31 |\n| Bob | 27 |');
+  });
+
+  it('writes an empty header when the first row is not made of TH cells', () => {
+    expect(toMarkdown(h('table', { summary: 'Ages' }, row('td', 'Ann', '31'), row('td', 'Bob', '27'))))
+      .toBe('|  |  |\n| --- | --- |\n| Ann | 31 |\n| Bob | 27 |');
+  });
+
+  it('uses the THEAD row as the header, with its alignments', () => {
+    expect(toMarkdown(h('table', {},
+      h('thead', {}, row('td', h('td', { align: 'right' }, 'Qty'), h('td', { style: 'text-align: center' }, 'Item'))),
+      h('tbody', {}, row('td', '2', 'Pens')))))
+      .toBe('| Qty | Item |\n| ---: | :---: |\n| 2 | Pens |');
+  });
+
+  it('escapes pipes and joins lines in cells', () => {
+    expect(toMarkdown(h('table', {}, row('th', 'Op'), row('td', h('td', {}, 'a | b', h('br'), 'or ', h('code', {}, 'c||d'))))))
+      .toBe('| Op |\n| --- |\n| a \\| b or `c\\|\\|d` |');
+  });
+
+  it('follows cells spanning several columns with empty cells', () => {
+    expect(toMarkdown(h('table', {}, row('th', 'A', 'B', 'C'), row('td', h('td', { colspan: '2' }, 'AB'), 'c'))))
+      .toBe('| A | B | C |\n| --- | --- | --- |\n| AB |  | c |');
+  });
+
+  it('falls back to paragraphs for layout tables', () => {
+    expect(toMarkdown(h('table', {}, row('td', h('td', {}, h('p', {}, 'Left column')), h('td', {}, h('p', {}, 'Right column'))))))
+      .toBe('Left column\n\nRight column');
+  });
+});
+
+describe('MarkdownConverter headings', () => {
+  const metadata: Metadata = { title: 'How to bake sourdough bread at home' };
+
+  it('removes a leading heading that duplicates the title', () => {
+    const content = h('div', {}, h('header', {}, h('h1', {}, 'How to Bake Sourdough Bread at Home!')), h('p', {}, 'Body.'));
+    expect(toMarkdown(content, { removeTitleHeading: true }, metadata)).toBe('Body.');
+    expect(toMarkdown(content, {}, metadata)).toBe('# How to Bake Sourdough Bread at Home!\n\nBody.');
+  });
+
+  it('keeps a leading heading that differs from the title or does not lead', () => {
+    expect(toMarkdown(h('div', {}, h('h2', {}, 'Ingredients'), h('p', {}, 'Flour.')), { removeTitleHeading: true }, metadata))
+      .toBe('## Ingredients\n\nFlour.');
+    expect(toMarkdown(h('div', {}, h('p', {}, 'Intro.'), h('h2', {}, 'How to bake sourdough bread at home')), { removeTitleHeading: true }, metadata))
+      .toBe('Intro.\n\n## How to bake sourdough bread at home');
+  });
+
+  it('shifts heading levels so that the shallowest one gets the base level', () => {
+    expect(toMarkdown(h('div', {}, h('h2', {}, 'A'), h('h4', {}, 'B'), h('h3', {}, 'C')), { baseHeadingLevel: 1 }))
+      .toBe('# A\n\n### B\n\n## C');
+  });
+
+  it('clamps shifted levels to 1-6', () => {
+    expect(toMarkdown(h('div', {}, h('h1', {}, 'A'), h('h3', {}, 'B'), h('h6', {}, 'C')), { baseHeadingLevel: 3 }))
+      .toBe('### A\n\n##### B\n\n###### C');
+  });
+
+  it('computes the base level without the removed title heading', () => {
+    expect(toMarkdown(h('div', {}, h('h1', {}, 'How to bake sourdough bread at home'), h('h3', {}, 'Step one')),
+      { removeTitleHeading: true, baseHeadingLevel: 2 }, metadata))
+      .toBe('## Step one');
+  });
+});
+
+describe('MarkdownConverter emphasis', () => {
+  it('uses the configured delimiters', () => {
+    expect(toMarkdown(h('p', {}, 'A ', h('em', {}, 'word'), ' and ', h('strong', {}, 'more'), '.'), { emDelimiter: '_', strongDelimiter: '__' }))
+      .toBe('A _word_ and __more__.');
+  });
+
+  it('falls back to asterisks for underscore emphasis inside a word', () => {
+    const options: MarkdownConverterOptions = { emDelimiter: '_', strongDelimiter: '__' };
+    expect(toMarkdown(h('p', {}, 'foo', h('em', {}, 'bar'), 'baz'), options)).toBe('foo*bar*baz');
+    expect(toMarkdown(h('p', {}, 'un', h('strong', {}, 'believ'), 'able'), options)).toBe('un**believ**able');
+    expect(toMarkdown(h('p', {}, h('em', {}, 'Pre'), 'fix and ', h('b', {}, 'x'), h('span', {}, 'y')), options)).toBe('*Pre*fix and **x**y');
+    expect(toMarkdown(h('p', {}, 'foo', h('em', {}, ' bar '), 'baz'), options)).toBe('foo _bar_ baz');
+  });
+});
+
+describe('MarkdownConverter link styles', () => {
+  const content = h('p', {},
+    h('a', { href: '/one', title: 'First "page"' }, 'One'), ', ',
+    h('a', { href: '/two' }, 'Two'), ' and ',
+    h('a', { href: '/one', title: 'First "page"' }, 'one again'), '.');
+
+  it('keeps link titles inline', () => {
+    expect(toMarkdown(content)).toBe(
+      '[One](https://example.com/one "First \\"page\\""), [Two](https://example.com/two) and [one again](https://example.com/one "First \\"page\\"").');
+  });
+
+  it('writes link titles into the reference definitions', () => {
+    expect(toMarkdown(content, { linkStyle: 'referenced' })).toBe(
+      '[One][1], [Two][2] and [one again][1].\n\n[1]: https://example.com/one "First \\"page\\""\n[2]: https://example.com/two');
+  });
+
+  it('numbers the same URL with different titles separately', () => {
+    expect(toMarkdown(h('p', {}, h('a', { href: '/x', title: 'A' }, 'a'), ' ', h('a', { href: '/x' }, 'b')), { linkStyle: 'referenced' }))
+      .toBe('[a][1] [b][2]\n\n[1]: https://example.com/x "A"\n[2]: https://example.com/x');
+  });
+});
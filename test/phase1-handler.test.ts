@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Phase1Handler } from '../src/phase1-handler';
+import type { ElementInfo, Metadata } from '../src/types';
+import { FakeElement, textChunk } from './helpers';
+
+function parseHead(metadata: Metadata, metaAttributes?: Record<string, string>) {
+  let nextId = 1;
+  const handler = new Phase1Handler(new Map<number, ElementInfo>(), metadata, () => nextId++, false);
+  const head = new FakeElement('head');
+  handler.element(head as unknown as Element);
+  if (metaAttributes) {
+    handler.element(new FakeElement('meta', metaAttributes, false) as unknown as Element);
+  }
+  const title = new FakeElement('title');
+  handler.element(title as unknown as Element);
+  handler.text(textChunk('Document title | Site'));
+  title.end();
+  head.end();
+  handler.end({} as DocumentEnd);
+}
+
+describe('Phase1Handler metadata', () => {
+  const jsonLd = [{ '@context': 'https://schema.org', '@type': 'NewsArticle', headline: 'JSON-LD headline' }];
+
+  it('prefers the JSON-LD headline over the <title> element', () => {
+    const metadata: Metadata = { jsonLd };
+    parseHead(metadata);
+    expect(metadata.title).toBe('JSON-LD headline');
+  });
+
+  it('prefers meta tags over the JSON-LD headline', () => {
+    const metadata: Metadata = { jsonLd };
+    parseHead(metadata, { property: 'og:title', content: 'Meta title' });
+    expect(metadata.title).toBe('Meta title');
+  });
+
+  it('falls back to the <title> element', () => {
+    const metadata: Metadata = {};
+    parseHead(metadata);
+    expect(metadata.title).toBe('Document title | Site');
+  });
+});
+
+describe('Phase1Handler text', () => {
+  function parseElement(tagName: string, attributes: Record<string, string>, chunks: Text[]): ElementInfo | undefined {
+    const elementStore = new Map<number, ElementInfo>();
+    let nextId = 1;
+    const handler = new Phase1Handler(elementStore, {}, () => nextId++, false);
+    const element = new FakeElement(tagName, attributes);
+    handler.element(element as unknown as Element);
+    for (const chunk of chunks) handler.text(chunk);
+    element.end();
+    return elementStore.get(1);
+  }
+
+  it('decodes character references', () => {
+    expect(parseElement('p', {}, [textChunk('Fish &amp; chips &#8212; &#x263A;')])?.finalTextContent).toBe('Fish & chips \u2014 \u263A');
+  });
+
+  it('decodes a character reference split across text chunks', () => {
+    const info = parseElement('p', {}, [textChunk('Fish &am', false), textChunk('p; chips &#82', false), textChunk('12;')]);
+    expect(info?.finalTextContent).toBe('Fish & chips \u2014');
+  });
+
+  it('leaves the TeX of math scripts undecoded', () => {
+    expect(parseElement('script', { type: 'math/tex' }, [textChunk('a &lt; b &amp; c')])?.finalTextContent).toBe('a &lt; b &amp; c');
+  });
+
+  it('decodes attribute values', () => {
+    expect(parseElement('a', { href: '/?a=1&amp;b=2', title: 'R&amp;D' }, [])?.attributes).toEqual({ href: '/?a=1&b=2', title: 'R&D' });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FLAGS, FLAG_CLEAN_CONDITIONALLY, FLAG_STRIP_UNLIKELYS, FLAG_WEIGHT_CLASSES } from '../src/constants';
+import { calculateScoresAndFindBestCandidate } from '../src/phase2-scorer';
+import { buildStore, h } from './helpers';
+
+const intro = 'A short introduction, with commas, to the article.';
+const body = 'The main text of the article, with commas, clauses, and enough words to count as a real paragraph of content.';
+
+describe('calculateScoresAndFindBestCandidate', () => {
+  it('returns the first attempt that reaches charThreshold', () => {
+    const { elementStore } = buildStore(h('article', {},
+      h('div', {}, h('p', {}, intro)),
+      h('div', {}, h('p', { class: 'supplemental' }, body), h('p', { class: 'supplemental' }, body), h('p', { class: 'supplemental' }, body)),
+    ));
+    const result = calculateScoresAndFindBestCandidate(elementStore, { debug: false, charThreshold: 40 });
+    expect(result.flags).toBe(DEFAULT_FLAGS);
+    expect(result.elementsToKeepIds).toEqual([2, 3]);
+  });
+
+  it('retries without stripping unlikely candidates when the content is shorter than charThreshold', () => {
+    const { elementStore } = buildStore(h('article', {},
+      h('div', {}, h('p', {}, intro)),
+      h('div', {}, h('p', { class: 'supplemental' }, body), h('p', { class: 'supplemental' }, body), h('p', { class: 'supplemental' }, body)),
+    ));
+    const result = calculateScoresAndFindBestCandidate(elementStore, { debug: false, charThreshold: 300 });
+    expect(result.flags).toBe(DEFAULT_FLAGS & ~FLAG_STRIP_UNLIKELYS);
+    expect(result.elementsToKeepIds).toEqual(expect.arrayContaining([5, 6, 7]));
+  });
+
+  it('retries without class weights after the unlikely candidates', () => {
+    const { elementStore } = buildStore(h('article', {},
+      h('div', {}, h('p', {}, intro)),
+      h('div', { class: 'promo' }, h('p', {}, body), h('p', {}, body), h('p', {}, body)),
+    ));
+    const result = calculateScoresAndFindBestCandidate(elementStore, { debug: false, charThreshold: 300 });
+    expect(result.flags).toBe(DEFAULT_FLAGS & ~FLAG_STRIP_UNLIKELYS & ~FLAG_WEIGHT_CLASSES);
+    expect(result.elementsToKeepIds).toEqual(expect.arrayContaining([5, 6, 7]));
+  });
+
+  it('retries without conditional cleaning last', () => {
+    const links = h('div', {}, ...[1, 2, 3].map(n => h('p', {}, h('a', { href: `/related/${n}` }, body))));
+    const { elementStore } = buildStore(h('article', {}, h('div', {}, h('p', {}, intro), h('p', {}, body), links)));
+    const result = calculateScoresAndFindBestCandidate(elementStore, { debug: false, charThreshold: 300 });
+    expect(result.flags).toBe(DEFAULT_FLAGS & ~FLAG_STRIP_UNLIKELYS & ~FLAG_WEIGHT_CLASSES & ~FLAG_CLEAN_CONDITIONALLY);
+    expect(result.elementsToKeepIds).toEqual(expect.arrayContaining([5, 6, 7]));
+  });
+
+  it('uses the longest attempt when none reaches charThreshold', () => {
+    const { elementStore } = buildStore(h('article', {},
+      h('div', {}, h('p', {}, intro)),
+      h('div', {}, h('p', { class: 'supplemental' }, body), h('p', { class: 'supplemental' }, body)),
+    ));
+    const result = calculateScoresAndFindBestCandidate(elementStore, { debug: false, charThreshold: 5000 });
+    expect(result.flags).toBe(DEFAULT_FLAGS & ~FLAG_STRIP_UNLIKELYS);
+    expect(result.elementsToKeepIds).toEqual(expect.arrayContaining([4, 5, 6]));
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Phase4Handler } from '../src/phase4-handler';
+import { FakeElement, buildStore, h } from './helpers';
+
+describe('Phase4Handler', () => {
+  it('removes the unsafe elements that the HTML serializer drops', () => {
+    const { elementStore, rootElementId, elementsToKeepIdsSet } = buildStore(h('div', {},
+      h('p', {}, 'Text'),
+      h('meta', { 'http-equiv': 'refresh', content: '0;url=https://evil.example/' }),
+      h('base', { href: 'https://evil.example/' }),
+      h('link', { rel: 'preload', href: 'https://evil.example/x.js' }),
+      h('template', {}, 'Hidden'),
+      h('object', { data: 'https://evil.example/x.swf' }),
+      h('iframe', { src: 'https://www.youtube.com/embed/abcdefghijk' }),
+    ));
+    const handler = new Phase4Handler(elementStore, elementsToKeepIdsSet, new Set([rootElementId]), {
+      baseURI: new URL('https://example.com/'),
+      formattingOptions: { debug: false, allowedVideoRegex: /www\.youtube\.com/i },
+    });
+    const elements = [
+      new FakeElement('div'),
+      new FakeElement('p'),
+      new FakeElement('meta', { 'http-equiv': 'refresh', content: '0;url=https://evil.example/' }, false),
+      new FakeElement('base', { href: 'https://evil.example/' }, false),
+      new FakeElement('link', { rel: 'preload', href: 'https://evil.example/x.js' }, false),
+      new FakeElement('template'),
+      new FakeElement('object', { data: 'https://evil.example/x.swf' }),
+      new FakeElement('iframe', { src: 'https://www.youtube.com/embed/abcdefghijk' }),
+    ];
+    for (const element of elements) {
+      handler.element(element as unknown as Element);
+      element.end();
+    }
+    expect(elements.map(element => element.removed)).toEqual([false, false, true, true, true, true, true, false]);
+  });
+
+  it('removes SVG animations', () => {
+    const { elementStore, rootElementId, elementsToKeepIdsSet } = buildStore(h('svg', {},
+      h('a', {}, h('animate', { attributename: 'href', values: 'javascript:alert(1)' }), h('set', { attributename: 'href', to: 'javascript:alert(2)' }), h('text', {}, 'click')),
+    ));
+    const handler = new Phase4Handler(elementStore, elementsToKeepIdsSet, new Set([rootElementId]), {
+      baseURI: new URL('https://example.com/'),
+      formattingOptions: { debug: false },
+    });
+    const elements = [
+      new FakeElement('svg'),
+      new FakeElement('a'),
+      new FakeElement('animate', { attributename: 'href', values: 'javascript:alert(1)' }),
+      new FakeElement('set', { attributename: 'href', to: 'javascript:alert(2)' }),
+      new FakeElement('text'),
+    ];
+    for (const element of elements) {
+      handler.element(element as unknown as Element);
+      element.end();
+    }
+    expect(elements.map(element => element.removed)).toEqual([false, false, true, true, false]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PlainTextConverter } from '../src/plain-text-converter';
+import type { PlainTextConverterOptions } from '../src/plain-text-converter';
+import { h, renderContext, type TestElement } from './helpers';
+
+function toPlainText(content: TestElement, options: PlainTextConverterOptions = {}): string {
+  return new PlainTextConverter(options).render(renderContext(content));
+}
+
+describe('PlainTextConverter', () => {
+  it('separates paragraphs by blank lines and does not escape text', () => {
+    expect(toPlainText(h('div', {}, h('h2', {}, 'Title'), h('p', {}, 'A *literal*  ', h('em', {}, 'text'), ' & more.'))))
+      .toBe('Title\n\nA *literal* text & more.');
+  });
+
+  it('prefixes list items and indents their following lines', () => {
+    expect(toPlainText(h('ul', {}, h('li', {}, 'One'), h('li', {}, 'Two', h('ol', {}, h('li', {}, 'Nested'), h('li', {}, 'Again'))))))
+      .toBe('- One\n- Two\n  1. Nested\n  2. Again');
+    expect(toPlainText(h('ul', {}, h('li', {}, 'One')), { listItemPrefix: '* ' })).toBe('* One');
+  });
+
+  it('writes table rows as tab-separated cells', () => {
+    expect(toPlainText(h('table', {},
+      h('caption', {}, 'Ages'),
+      h('tbody', {}, h('tr', {}, h('th', {}, 'Name'), h('th', {}, 'Age')), h('tr', {}, h('td', {}, 'Ann\n  Lee'), h('td', {}, '31'))))))
+      .toBe('Ages\nName\tAge\nAnn Lee\t31');
+  });
+
+  it('wraps lines at wrapWidth but never wraps code', () => {
+    const options: PlainTextConverterOptions = { wrapWidth: 20 };
+    expect(toPlainText(h('p', {}, 'The quick brown fox jumps over the lazy dog.'), options))
+      .toBe('The quick brown fox\njumps over the lazy\ndog.');
+    expect(toPlainText(h('pre', {}, 'const value = computeSomethingLong(argument);\n  return value;'), options))
+      .toBe('const value = computeSomethingLong(argument);\n  return value;');
+    expect(toPlainText(h('ul', {}, h('li', {}, 'Item text that wraps around')), options))
+      .toBe('- Item text that\n  wraps around');
+  });
+
+  it('turns BR into a line break', () => {
+    expect(toPlainText(h('p', {}, 'Jane Doe', h('br'), '1 Main St ', h('br'), ' Springfield'))).toBe('Jane Doe\n1 Main St\nSpringfield');
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ReaderableHandler } from '../src/readerable-handler';
+import { FakeElement, textChunk } from './helpers';
+
+describe('ReaderableHandler', () => {
+  it('accepts self-closing elements without an end tag', () => {
+    const handler = new ReaderableHandler(10, 0, false);
+    const paragraph = new FakeElement('p');
+    const svg = new FakeElement('svg');
+    const path = new FakeElement('path', { d: 'M0 0' }, false);
+
+    handler.element(paragraph as unknown as Element);
+    handler.element(svg as unknown as Element);
+    expect(() => handler.element(path as unknown as Element)).not.toThrow();
+    svg.end();
+    handler.text(textChunk('A paragraph that is long enough to count.'));
+    paragraph.end();
+
+    expect(handler.isReaderable).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { ElementAttributes } from '../src/types';
+import { fixLazyImageAttributes, getBestImageSource, isJavaScriptURI, parseSrcset, sanitizeAttributes, unescapeHtmlEntities } from '../src/utils';
+import { buildStore, h, type TestElement } from './helpers';
+
+const options = { baseURI: new URL('https://example.com/a/b.html') };
+
+describe('isJavaScriptURI', () => {
+  it('detects javascript: URLs', () => {
+    expect(isJavaScriptURI('javascript:alert(1)')).toBe(true);
+    expect(isJavaScriptURI('  JavaScript:alert(1)')).toBe(true);
+    expect(isJavaScriptURI('https://example.com/javascript:')).toBe(false);
+    expect(isJavaScriptURI(undefined)).toBe(false);
+  });
+
+  it('detects javascript: URLs split by tabs and newlines', () => {
+    expect(isJavaScriptURI('java\nscript:alert(3)')).toBe(true);
+    expect(isJavaScriptURI('java\tscript:alert(4)')).toBe(true);
+    expect(isJavaScriptURI('\u0001\u0000javascript:alert(4)')).toBe(true);
+  });
+});
+
+describe('sanitizeAttributes', () => {
+  it('removes javascript: URLs split by tabs and newlines', () => {
+    expect(sanitizeAttributes('A', { href: 'java\nscript:alert(3)' }, options)).toEqual({});
+    expect(sanitizeAttributes('A', { href: 'java\tscript:alert(3)' }, options)).toEqual({});
+  });
+
+  it('removes javascript: URLs from xlink:href and formaction', () => {
+    expect(sanitizeAttributes('A', { 'xlink:href': 'javascript:alert(5)' }, options)).toEqual({});
+    expect(sanitizeAttributes('BUTTON', { formaction: 'javascript:alert(6)' }, options)).toEqual({});
+    expect(sanitizeAttributes('A', { 'xlink:href': '/x' }, options)).toEqual({ 'xlink:href': 'https://example.com/x' });
+  });
+
+  it('removes srcdoc and event handlers', () => {
+    expect(sanitizeAttributes('IFRAME', { srcdoc: '<script>alert(1)</script>', onload: 'alert(2)' }, options)).toEqual({});
+    expect(sanitizeAttributes('DIV', { srcdoc: 'x', title: 'ok' }, options)).toEqual({ title: 'ok' });
+  });
+
+  it('resolves relative URLs', () => {
+    expect(sanitizeAttributes('IMG', { src: 'c.png', alt: 'C' }, options)).toEqual({ src: 'https://example.com/a/c.png', alt: 'C' });
+  });
+});
+
+describe('unescapeHtmlEntities', () => {
+  it('decodes named references', () => {
+    expect(unescapeHtmlEntities('Tom &amp; Jerry &lt;3 &hellip; &NotEqualTilde;')).toBe('Tom & Jerry <3 \u2026 \u2242\u0338');
+    expect(unescapeHtmlEntities('&unknown; &amp')).toBe('&unknown; &');
+  });
+
+  it('decodes decimal and hexadecimal references', () => {
+    expect(unescapeHtmlEntities('&#169; &#x1F600; &#X41;')).toBe('\u00A9 \u{1F600} A');
+    expect(unescapeHtmlEntities('&#150; &#0; &#xD800; &#x110000;')).toBe('\u2013 \uFFFD \uFFFD \uFFFD');
+  });
+
+  it('decodes legacy references without a semicolon, except before = or alphanumerics in attributes', () => {
+    expect(unescapeHtmlEntities('&copy2024 &notit;')).toBe('\u00A92024 \u00ACit;');
+    expect(unescapeHtmlEntities('/?a=1&copy=2&amp=3', true)).toBe('/?a=1&copy=2&amp=3');
+    expect(unescapeHtmlEntities('/?a=1&amp;b=2', true)).toBe('/?a=1&b=2');
+  });
+});
+
+describe('parseSrcset', () => {
+  it('parses width and density descriptors', () => {
+    expect(parseSrcset('a.jpg 400w, b.jpg 800w')).toEqual([
+      { url: 'a.jpg', width: 400, density: undefined },
+      { url: 'b.jpg', width: 800, density: undefined },
+    ]);
+    expect(parseSrcset('a.jpg, b.jpg 1.5x,c.jpg 2x')).toEqual([
+      { url: 'a.jpg', width: undefined, density: undefined },
+      { url: 'b.jpg', width: undefined, density: 1.5 },
+      { url: 'c.jpg', width: undefined, density: 2 },
+    ]);
+  });
+});
+
+describe('fixLazyImageAttributes', () => {
+  const fix = (attributes: ElementAttributes) => {
+    fixLazyImageAttributes(attributes);
+    return attributes;
+  };
+
+  it('replaces a data: placeholder with data-src', () => {
+    expect(fix({ src: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=', 'data-src': '/real.jpg' }))
+      .toEqual({ src: '/real.jpg', 'data-src': '/real.jpg' });
+  });
+
+  it('uses data-srcset when the srcset only has placeholders', () => {
+    expect(fix({ src: '/a.jpg', srcset: '/blank.gif 1x', 'data-srcset': '/a.jpg 1x, /a2.jpg 2x' }).srcset).toBe('/a.jpg 1x, /a2.jpg 2x');
+  });
+
+  it('removes a placeholder without a replacement and keeps real sources', () => {
+    expect(fix({ src: '/img/spacer.gif', alt: 'x' })).toEqual({ alt: 'x' });
+    expect(fix({ src: '/photo.jpg', 'data-src': '/other.jpg' })).toEqual({ src: '/photo.jpg', 'data-src': '/other.jpg' });
+  });
+});
+
+describe('getBestImageSource', () => {
+  const bestSource = (content: TestElement, targetWidth = 1024) => {
+    const { elementStore } = buildStore(h('div', {}, content));
+    const imgId = [...elementStore.values()].find(info => info.tagName === 'IMG')?.id ?? 0;
+    return getBestImageSource(imgId, elementStore, targetWidth);
+  };
+
+  it('picks the smallest width candidate that is at least as wide as the target', () => {
+    expect(bestSource(h('img', { src: 's.jpg', srcset: 'm.jpg 800w, l.jpg 1200w, xl.jpg 2400w' }))).toBe('l.jpg');
+    expect(bestSource(h('img', { srcset: 'm.jpg 800w, l.jpg 1000w' }))).toBe('l.jpg');
+  });
+
+  it('scales density candidates by the displayed width', () => {
+    expect(bestSource(h('img', { src: 'a.jpg', srcset: 'a2.jpg 2x', width: '600' }))).toBe('a2.jpg');
+    expect(bestSource(h('img', { src: 'a.jpg', srcset: 'a2.jpg 2x', width: '600' }), 500)).toBe('a.jpg');
+  });
+
+  it('uses the first matching source of a picture', () => {
+    const picture = h('picture', {},
+      h('source', { media: '(max-width: 600px)', srcset: 'small.webp' }),
+      h('source', { media: '(min-width: 601px)', srcset: 'large.webp 1600w' }),
+      h('img', { src: 'fallback.jpg' }));
+    expect(bestSource(picture)).toBe('large.webp');
+    expect(bestSource(picture, 400)).toBe('small.webp');
+  });
+
+  it('returns an empty string when only placeholders are left', () => {
+    expect(bestSource(h('img', { src: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=' }))).toBe('');
+  });
+});